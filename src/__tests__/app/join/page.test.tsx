@@ -110,6 +110,7 @@ describe('JoinPage', () => {
     const user = userEvent.setup();
     const mockResponse = {
       token: 'student-token',
+      expiresAt: '2030-01-01T00:00:00.000Z',
       student: {
         id: 'student-123',
         displayName: 'John Student',
@@ -146,10 +147,19 @@ describe('JoinPage', () => {
       });
     });
 
-    expect(mockSetAuth).toHaveBeenCalledWith('student-token', mockResponse.student);
-    expect(mockSetSession).toHaveBeenCalledWith(mockResponse.session);
-    expect(mockSetGroup).toHaveBeenCalledWith(mockResponse.group);
-    expect(mockPush).toHaveBeenCalledWith('/session/session-123');
+    expect(mockSetAuth).toHaveBeenCalledWith(
+      'student-token',
+      { id: 'student-123', name: 'John Student', sessionId: 'session-123' },
+      '2030-01-01T00:00:00.000Z',
+    );
+    expect(mockSetSession).toHaveBeenCalledWith({
+      id: 'session-123',
+      title: 'Math Class',
+      code: 'ABC123',
+      status: 'active',
+    });
+    expect(mockSetGroup).toHaveBeenCalledWith({ id: 'group-1', name: 'Group A', members: [] });
+    expect(mockPush).toHaveBeenCalledWith('/session/session-123/lobby');
   });
 
   it('shows parental consent required for students under 13', async () => {
@@ -0,0 +1,74 @@
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { useRouter } from 'next/navigation';
+import { AuthExpiryHandler } from '@/components/auth/auth-expiry-handler';
+import { refreshStudentToken } from '@/features/session-joining/api/refresh-token';
+import { emitAuthExpired, registerExpiryPrompt, registerSignOutTask } from '@/lib/auth-events';
+import { useAuthStore } from '@/stores/auth-store';
+
+jest.mock('next/navigation', () => ({
+  useRouter: jest.fn(),
+}));
+
+jest.mock('@/features/session-joining/api/refresh-token', () => ({
+  refreshStudentToken: jest.fn(),
+}));
+
+const mockReplace = jest.fn();
+
+function signInStudent() {
+  useAuthStore.getState().signIn({
+    mode: 'student',
+    token: 'expired-token',
+    expiresAt: Date.now() - 1000,
+    sessionId: 'session-1',
+    groupId: null,
+  });
+}
+
+async function expire() {
+  await act(async () => {
+    emitAuthExpired({ reason: 'unauthorized' });
+  });
+}
+
+describe('AuthExpiryHandler', () => {
+  beforeEach(() => {
+    mockReplace.mockReset();
+    (useRouter as jest.Mock).mockReturnValue({ replace: mockReplace });
+    (refreshStudentToken as jest.Mock).mockRejectedValue(new Error('401'));
+    signInStudent();
+  });
+
+  it('leaves a student whose page can prompt signed in, so buffered audio keeps uploading', async () => {
+    const prompt = jest.fn();
+    const signOutTask = jest.fn();
+    const unregisterPrompt = registerExpiryPrompt(prompt);
+    const unregisterTask = registerSignOutTask(signOutTask);
+    render(<AuthExpiryHandler />);
+
+    await expire();
+
+    expect(prompt).toHaveBeenCalled();
+    expect(signOutTask).not.toHaveBeenCalled();
+    expect(mockReplace).not.toHaveBeenCalled();
+    expect(useAuthStore.getState().credentials).not.toBeNull();
+    unregisterPrompt();
+    unregisterTask();
+  });
+
+  it('saves the recording before signing out when no page can prompt', async () => {
+    const events: string[] = [];
+    const unregisterTask = registerSignOutTask(async () => {
+      events.push(useAuthStore.getState().credentials ? 'saved while signed in' : 'saved too late');
+    });
+    render(<AuthExpiryHandler />);
+
+    await expire();
+
+    expect(events).toEqual(['saved while signed in']);
+    expect(useAuthStore.getState().credentials).toBeNull();
+    expect(mockReplace).toHaveBeenCalledWith('/?reason=unauthorized');
+    unregisterTask();
+  });
+});
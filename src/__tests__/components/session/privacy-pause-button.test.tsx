@@ -0,0 +1,49 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { PrivacyPauseButton } from '@/components/session/privacy-pause-button';
+
+beforeAll(() => {
+  // jsdom has no pointer capture
+  HTMLElement.prototype.setPointerCapture = jest.fn();
+});
+
+function renderButton(isActive: boolean) {
+  const onStart = jest.fn();
+  const onEnd = jest.fn();
+  const view = render(<PrivacyPauseButton isActive={isActive} onStart={onStart} onEnd={onEnd} />);
+  return { ...view, onStart, onEnd, button: screen.getByRole('button') };
+}
+
+describe('PrivacyPauseButton', () => {
+  it('starts a pause when pressed and ends it when released', () => {
+    const { button, onStart, onEnd, rerender } = renderButton(false);
+
+    fireEvent.pointerDown(button);
+    expect(onStart).toHaveBeenCalledTimes(1);
+
+    rerender(<PrivacyPauseButton isActive onStart={onStart} onEnd={onEnd} />);
+    fireEvent.pointerUp(button);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds with the keyboard and ignores key repeat', () => {
+    const { button, onStart, onEnd, rerender } = renderButton(false);
+
+    fireEvent.keyDown(button, { key: ' ' });
+    rerender(<PrivacyPauseButton isActive onStart={onStart} onEnd={onEnd} />);
+    fireEvent.keyDown(button, { key: ' ', repeat: true });
+    fireEvent.keyUp(button, { key: ' ' });
+
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends the pause when focus leaves mid-hold', () => {
+    const { button, onEnd } = renderButton(true);
+
+    fireEvent.blur(button);
+
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(button).toHaveAttribute('aria-pressed', 'true');
+  });
+});
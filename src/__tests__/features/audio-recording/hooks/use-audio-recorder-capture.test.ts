@@ -0,0 +1,475 @@
+import { renderHook, act } from '@testing-library/react';
+import { useAudioRecorder } from '@/features/audio-recording/hooks/use-audio-recorder';
+
+// Byte magnitude every analyser bin reports; 64 is well above the VAD threshold
+let micLevel = 0;
+
+type Listener = () => void;
+
+class FakeTrack {
+  readyState: MediaStreamTrackState = 'live';
+  muted = false;
+  private listeners = new Map<string, Listener[]>();
+
+  constructor(public deviceId: string) {}
+
+  addEventListener(type: string, listener: Listener) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  getSettings() {
+    return { deviceId: this.deviceId, sampleRate: 48000 };
+  }
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  // The OS or the user pulled the device
+  end() {
+    this.readyState = 'ended';
+    this.listeners.get('ended')?.forEach((listener) => listener());
+  }
+
+  // The OS silenced the input, e.g. another app took the mic
+  mute() {
+    this.muted = true;
+    this.listeners.get('mute')?.forEach((listener) => listener());
+  }
+}
+
+class FakeStream {
+  constructor(public track: FakeTrack) {}
+  getTracks() {
+    return [this.track];
+  }
+  getAudioTracks() {
+    return [this.track];
+  }
+}
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  state: RecordingState = 'inactive';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(public stream: FakeStream) {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+  stop() {
+    this.state = 'inactive';
+    this.onstop?.();
+  }
+  pause() {
+    this.state = 'paused';
+  }
+  resume() {
+    this.state = 'recording';
+  }
+
+  // What the browser does at the end of each timeslice; nothing is emitted while paused
+  emitChunk(data = 'audio') {
+    if (this.state !== 'recording') return;
+    this.ondataavailable?.({ data: new Blob([data], { type: 'audio/webm' }) });
+  }
+}
+
+class FakeAudioContext {
+  state: AudioContextState = 'running';
+  sampleRate = 16000;
+  onstatechange: (() => void) | null = null;
+
+  createMediaStreamSource() {
+    return { connect: () => undefined };
+  }
+  createAnalyser() {
+    return {
+      fftSize: 0,
+      frequencyBinCount: 4,
+      getByteFrequencyData: (array: Uint8Array) => array.fill(micLevel),
+    };
+  }
+  close() {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+  resume() {
+    this.state = 'running';
+    return Promise.resolve();
+  }
+}
+
+const getUserMedia = jest.fn();
+const deviceListeners: Listener[] = [];
+const inputDevices = [
+  { kind: 'audioinput', deviceId: 'default', label: 'Built-in' },
+  { kind: 'audioinput', deviceId: 'usb', label: 'USB mic' },
+];
+
+beforeAll(() => {
+  Object.assign(global, { MediaRecorder: FakeMediaRecorder, AudioContext: FakeAudioContext });
+  URL.createObjectURL = jest.fn(() => 'blob:recording');
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia,
+      enumerateDevices: () => Promise.resolve(inputDevices),
+      addEventListener: (_type: string, listener: Listener) => deviceListeners.push(listener),
+      removeEventListener: () => undefined,
+    },
+  });
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  micLevel = 0;
+  FakeMediaRecorder.instances = [];
+  localStorage.clear();
+  getUserMedia.mockReset();
+  getUserMedia.mockImplementation(
+    (constraints: { audio: boolean | { deviceId?: { exact: string } } }) => {
+      const deviceId =
+        typeof constraints.audio === 'object' ? constraints.audio.deviceId?.exact : undefined;
+      return Promise.resolve(new FakeStream(new FakeTrack(deviceId ?? 'default')));
+    },
+  );
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const latestRecorder = () => FakeMediaRecorder.instances[FakeMediaRecorder.instances.length - 1];
+
+async function startCapture(options: Parameters<typeof useAudioRecorder>[0] = {}) {
+  const hook = renderHook(() => useAudioRecorder(options));
+  await act(async () => {
+    await hook.result.current.requestPermission();
+  });
+  await act(async () => {
+    await hook.result.current.startRecording();
+  });
+  return hook;
+}
+
+describe('voice activity detection', () => {
+  it('forwards chunks with speech and drops silent ones', async () => {
+    const onDataAvailable = jest.fn();
+    await startCapture({ onDataAvailable, vad: { enabled: true } });
+
+    // The header chunk always goes out
+    act(() => latestRecorder().emitChunk('header'));
+    act(() => {
+      jest.advanceTimersByTime(200);
+      latestRecorder().emitChunk('silence');
+    });
+    micLevel = 64;
+    act(() => {
+      jest.advanceTimersByTime(200);
+      latestRecorder().emitChunk('speech');
+    });
+
+    expect(onDataAvailable).toHaveBeenCalledTimes(2);
+    expect(onDataAvailable.mock.calls[1][1]).toMatchObject({ isSpeech: true });
+  });
+
+  it('treats chunks as speech when level sampling has been throttled', async () => {
+    const onDataAvailable = jest.fn();
+    await startCapture({ onDataAvailable, vad: { enabled: true } });
+    act(() => latestRecorder().emitChunk('header'));
+
+    // A background tab: time passes but the sampling timer never gets to run
+    jest.setSystemTime(Date.now() + 2000);
+    act(() => latestRecorder().emitChunk('unmeasured'));
+
+    expect(onDataAvailable).toHaveBeenCalledTimes(2);
+    expect(onDataAvailable.mock.calls[1][1]).toMatchObject({ isSpeech: true });
+  });
+
+  it('keeps forwarding through the hangover after speech stops', async () => {
+    const onDataAvailable = jest.fn();
+    await startCapture({ onDataAvailable, vad: { enabled: true, hangoverMs: 1000 } });
+    act(() => latestRecorder().emitChunk('header'));
+
+    micLevel = 64;
+    act(() => {
+      jest.advanceTimersByTime(200);
+      latestRecorder().emitChunk('speech');
+    });
+    micLevel = 0;
+    act(() => {
+      jest.advanceTimersByTime(500);
+      latestRecorder().emitChunk('trailing');
+    });
+    act(() => {
+      jest.advanceTimersByTime(1000);
+      latestRecorder().emitChunk('silence');
+    });
+
+    expect(onDataAvailable).toHaveBeenCalledTimes(3);
+  });
+
+  it('forwards every Nth silent chunk when asked to', async () => {
+    const onDataAvailable = jest.fn();
+    await startCapture({ onDataAvailable, vad: { enabled: true, silentChunkInterval: 3 } });
+    act(() => latestRecorder().emitChunk('header'));
+
+    for (let i = 0; i < 6; i++) {
+      act(() => {
+        jest.advanceTimersByTime(200);
+        latestRecorder().emitChunk('silence');
+      });
+    }
+
+    expect(onDataAvailable).toHaveBeenCalledTimes(3);
+    expect(onDataAvailable.mock.calls[1][1]).toMatchObject({ isSpeech: false });
+  });
+});
+
+describe('input device hot-swap', () => {
+  const lastRequestedDevice = () =>
+    getUserMedia.mock.calls[getUserMedia.mock.calls.length - 1][0].audio.deviceId?.exact;
+  // Only the mounted hook's listener matters; earlier tests' hooks are gone
+  const fireDeviceChange = async () => {
+    await act(async () => {
+      await deviceListeners[deviceListeners.length - 1]();
+    });
+  };
+
+  it('restarts capture on the chosen device and remembers it', async () => {
+    const { result } = await startCapture();
+
+    await act(async () => {
+      await result.current.selectDevice('usb');
+    });
+
+    expect(lastRequestedDevice()).toBe('usb');
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(latestRecorder().stream.track.deviceId).toBe('usb');
+    expect(result.current.isRecording).toBe(true);
+    expect(localStorage.getItem('classwaves:preferred-audio-input')).toBe('usb');
+  });
+
+  it('moves to another input when the track ends', async () => {
+    const { result } = await startCapture();
+
+    await act(async () => {
+      latestRecorder().stream.track.end();
+    });
+
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(latestRecorder().stream.track.readyState).toBe('live');
+    expect(result.current.isRecording).toBe(true);
+  });
+
+  it('moves off a device that was unplugged', async () => {
+    const { result } = await startCapture();
+    // Some browsers end the track silently and only report the device change
+    latestRecorder().stream.track.stop();
+
+    await fireDeviceChange();
+
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(latestRecorder().stream.track.readyState).toBe('live');
+    expect(result.current.isRecording).toBe(true);
+  });
+
+  it('switches back to the preferred device when it is plugged in again', async () => {
+    const { result } = await startCapture();
+    getUserMedia.mockRejectedValueOnce(new Error('Requested device not found'));
+    await act(async () => {
+      await result.current.selectDevice('usb');
+    });
+    expect(latestRecorder().stream.track.deviceId).toBe('default');
+
+    await fireDeviceChange();
+
+    expect(latestRecorder().stream.track.deviceId).toBe('usb');
+  });
+
+  it('keeps the duration running across a device switch', async () => {
+    const { result } = await startCapture();
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(3000);
+    });
+
+    await act(async () => {
+      await result.current.selectDevice('usb');
+    });
+
+    expect(result.current.duration).toBe(3);
+  });
+});
+
+describe('capture recovery', () => {
+  it('restarts capture when the track ends and reports the recovery', async () => {
+    const onCaptureIssue = jest.fn();
+    const { result } = await startCapture({ onCaptureIssue });
+
+    await act(async () => {
+      latestRecorder().stream.track.end();
+    });
+
+    expect(onCaptureIssue).toHaveBeenCalledWith('Microphone disconnected');
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(result.current.isRecording).toBe(true);
+    expect(result.current.recoveryStatus).toBe('recovered');
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(4000);
+    });
+    expect(result.current.recoveryStatus).toBe('idle');
+  });
+
+  it('restarts capture when the system keeps the mic muted past the grace period', async () => {
+    const onCaptureIssue = jest.fn();
+    await startCapture({ onCaptureIssue });
+
+    act(() => latestRecorder().stream.track.mute());
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(2999);
+    });
+    expect(onCaptureIssue).not.toHaveBeenCalled();
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1);
+    });
+
+    expect(onCaptureIssue).toHaveBeenCalledWith('Microphone muted by the system');
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+  });
+
+  it('gives up after three failed attempts with growing backoff', async () => {
+    const onCaptureIssue = jest.fn();
+    const { result } = await startCapture({ onCaptureIssue });
+    getUserMedia.mockClear().mockRejectedValue(new Error('busy'));
+
+    await act(async () => {
+      latestRecorder().stream.track.end();
+    });
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(999);
+    });
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1);
+    });
+    expect(getUserMedia).toHaveBeenCalledTimes(2);
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(2000);
+    });
+    expect(getUserMedia).toHaveBeenCalledTimes(3);
+    expect(result.current.recoveryStatus).toBe('recovering');
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(3000);
+    });
+
+    expect(getUserMedia).toHaveBeenCalledTimes(3);
+    expect(result.current.isRecording).toBe(false);
+    expect(result.current.recoveryStatus).toBe('failed');
+    expect(result.current.error).toMatch('could not be restarted');
+    expect(onCaptureIssue).toHaveBeenLastCalledWith(
+      'Microphone disconnected; automatic restart failed',
+    );
+  });
+});
+
+describe('duration while paused', () => {
+  it('holds the clock during a pause and carries on after resume', async () => {
+    const { result } = await startCapture();
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(3000);
+    });
+    expect(result.current.duration).toBe(3);
+
+    act(() => result.current.pauseRecording());
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(5000);
+    });
+    expect(result.current.duration).toBe(3);
+
+    act(() => result.current.resumeRecording());
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(2000);
+    });
+    expect(result.current.duration).toBe(5);
+  });
+});
+
+describe('chunk info', () => {
+  it('marks only the first chunk of each stream as the header', async () => {
+    const onDataAvailable = jest.fn();
+    const { result } = await startCapture({ onDataAvailable });
+
+    act(() => latestRecorder().emitChunk('header'));
+    act(() => latestRecorder().emitChunk('body'));
+    await act(async () => {
+      await result.current.restartRecording();
+    });
+    act(() => latestRecorder().emitChunk('new header'));
+
+    expect(onDataAvailable.mock.calls.map(([, info]) => info.isHeader)).toEqual([
+      true,
+      false,
+      true,
+    ]);
+  });
+});
+
+describe('restarting while paused', () => {
+  it('keeps a paused recorder paused across a device switch', async () => {
+    const onDataAvailable = jest.fn();
+    const { result } = await startCapture({ onDataAvailable });
+    act(() => result.current.pauseRecording());
+
+    await act(async () => {
+      await result.current.selectDevice('usb');
+    });
+
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(latestRecorder().state).toBe('paused');
+    expect(result.current.status).toBe('paused');
+    act(() => latestRecorder().emitChunk('private'));
+    expect(onDataAvailable).not.toHaveBeenCalled();
+
+    act(() => result.current.resumeRecording());
+    act(() => latestRecorder().emitChunk('header'));
+    expect(onDataAvailable).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a paused recorder paused when recovering from an unplugged mic', async () => {
+    const { result } = await startCapture();
+    act(() => result.current.pauseRecording());
+
+    await act(async () => {
+      latestRecorder().stream.track.end();
+    });
+
+    expect(FakeMediaRecorder.instances).toHaveLength(2);
+    expect(latestRecorder().state).toBe('paused');
+    expect(result.current.status).toBe('paused');
+  });
+
+  it('stays paused when a failed recovery attempt is retried', async () => {
+    const { result } = await startCapture();
+    act(() => result.current.pauseRecording());
+    getUserMedia.mockRejectedValueOnce(new Error('busy'));
+
+    await act(async () => {
+      latestRecorder().stream.track.end();
+    });
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(latestRecorder().state).toBe('paused');
+    expect(result.current.status).toBe('paused');
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  negotiateAudioFormat,
+  selectRecorderMimeType,
+} from '@/features/audio-recording/lib/audio-format';
+
+describe('audio format negotiation', () => {
+  const originalMediaRecorder = global.MediaRecorder;
+  const originalWorkletNode = global.AudioWorkletNode;
+
+  const mockRecorderSupport = (supported: string[]) => {
+    global.MediaRecorder = {
+      isTypeSupported: (type: string) => supported.includes(type),
+    } as unknown as typeof MediaRecorder;
+  };
+
+  afterEach(() => {
+    global.MediaRecorder = originalMediaRecorder;
+    global.AudioWorkletNode = originalWorkletNode;
+  });
+
+  it('prefers webm/opus when available', () => {
+    mockRecorderSupport(['audio/webm;codecs=opus', 'audio/mp4']);
+
+    expect(selectRecorderMimeType()).toBe('audio/webm;codecs=opus');
+  });
+
+  it('falls back to mp4 on browsers without opus', () => {
+    mockRecorderSupport(['audio/mp4']);
+
+    expect(selectRecorderMimeType()).toBe('audio/mp4');
+  });
+
+  it('falls back to pcm16 capture when no recorder format works', () => {
+    mockRecorderSupport([]);
+    global.AudioWorkletNode = class {} as unknown as typeof AudioWorkletNode;
+
+    expect(negotiateAudioFormat('media-recorder', 16000)).toEqual({
+      captureMode: 'pcm16',
+      mimeType: 'audio/pcm;encoding=s16le;rate=16000;channels=1',
+      sampleRate: 16000,
+    });
+  });
+
+  it('returns null when nothing can record', () => {
+    mockRecorderSupport([]);
+    // @ts-expect-error - simulate a browser without AudioWorklet
+    delete global.AudioWorkletNode;
+
+    expect(negotiateAudioFormat('media-recorder', 16000)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  Downsampler,
+  downsample,
+  floatTo16BitPCM,
+  pcm16MimeType,
+} from '@/features/audio-recording/lib/pcm16';
+
+describe('pcm16 helpers', () => {
+  it('labels the samples as little-endian 16-bit PCM at the sample rate', () => {
+    expect(pcm16MimeType(16000)).toBe('audio/pcm;encoding=s16le;rate=16000;channels=1');
+  });
+
+  it('returns the input untouched when no downsampling is needed', () => {
+    const input = new Float32Array([0.1, 0.2, 0.3]);
+    expect(downsample(input, 16000, 16000)).toBe(input);
+  });
+
+  it('averages samples when downsampling by an integer ratio', () => {
+    const input = new Float32Array([0, 0.5, 1, 1, -1, -0.5]);
+    const output = downsample(input, 48000, 16000);
+
+    expect(output).toHaveLength(2);
+    expect(output[0]).toBeCloseTo(0.5);
+    expect(output[1]).toBeCloseTo(-0.1667, 3);
+  });
+
+  it('keeps the resampling position across worklet frames', () => {
+    // A continuous ramp split into the 2048-sample frames the worklet posts
+    const frames = Array.from({ length: 6 }, (_, frame) =>
+      Float32Array.from({ length: 2048 }, (_, i) => (frame * 2048 + i) / 12288),
+    );
+    const downsampler = new Downsampler(48000, 16000);
+    const outputs = frames.map((frame) => downsampler.process(frame));
+
+    // 682.67 samples per frame: the fraction is carried, not dropped
+    expect(outputs.map((output) => output.length)).toEqual([682, 683, 683, 682, 683, 683]);
+    const streamed = outputs.flatMap((output) => Array.from(output));
+    const whole = downsample(
+      Float32Array.from(frames.flatMap((frame) => Array.from(frame))),
+      48000,
+      16000,
+    );
+    expect(streamed).toHaveLength(4096);
+    streamed.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('converts floats to clamped 16-bit samples', () => {
+    const output = floatTo16BitPCM(new Float32Array([0, 1, -1, 2, -2]));
+
+    expect(Array.from(output)).toEqual([0, 32767, -32768, 32767, -32768]);
+  });
+
+  it('lays the samples out low byte first, as the mime type says', () => {
+    const output = floatTo16BitPCM(new Float32Array([1, -1]));
+
+    expect(Array.from(new Uint8Array(output.buffer))).toEqual([0xff, 0x7f, 0x00, 0x80]);
+  });
+});
@@ -0,0 +1,53 @@
+import { PrivacyGate } from '@/features/audio-recording/lib/privacy-gate';
+
+const header = { isHeader: true };
+const body = { isHeader: false };
+
+describe('PrivacyGate', () => {
+  it('admits every chunk when no pause happened', () => {
+    const gate = new PrivacyGate();
+
+    expect([header, body, body].map((chunk) => gate.admit(chunk))).toEqual([true, true, true]);
+  });
+
+  it('drops chunks that overlap the pause, including the one spanning its end', () => {
+    const gate = new PrivacyGate();
+    gate.admit(header);
+
+    gate.start();
+    expect(gate.admit(body)).toBe(false);
+    gate.end();
+    expect(gate.admit(body)).toBe(false);
+    expect(gate.admit(body)).toBe(true);
+    expect(gate.needsHeader()).toBe(false);
+  });
+
+  it('drops a pause that starts and ends within a single chunk', () => {
+    const gate = new PrivacyGate();
+    gate.admit(header);
+
+    gate.start();
+    gate.end();
+
+    expect(gate.admit(body)).toBe(false);
+    expect(gate.admit(body)).toBe(true);
+  });
+
+  it('holds back the rest of a stream whose header was private until a new header arrives', () => {
+    const gate = new PrivacyGate();
+
+    gate.start();
+    gate.end();
+    expect(gate.admit(header)).toBe(false);
+    expect(gate.needsHeader()).toBe(true);
+
+    // Undecodable without the header, so they are not worth sending
+    expect(gate.admit(body)).toBe(false);
+    expect(gate.admit(body)).toBe(false);
+
+    // A restarted capture begins with its own header
+    expect(gate.admit(header)).toBe(true);
+    expect(gate.needsHeader()).toBe(false);
+    expect(gate.admit(body)).toBe(true);
+  });
+});
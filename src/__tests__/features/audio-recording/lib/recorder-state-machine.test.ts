@@ -0,0 +1,44 @@
+import { isCapturing, nextRecorderStatus } from '@/features/audio-recording/lib/recorder-state-machine';
+
+describe('recorder state machine', () => {
+  it('walks the happy path from idle to recording and back', () => {
+    expect(nextRecorderStatus('idle', { type: 'START' })).toBe('starting');
+    expect(nextRecorderStatus('starting', { type: 'STARTED' })).toBe('recording');
+    expect(nextRecorderStatus('recording', { type: 'PAUSE' })).toBe('paused');
+    expect(nextRecorderStatus('paused', { type: 'STOP' })).toBe('stopping');
+    expect(nextRecorderStatus('stopping', { type: 'STOPPED' })).toBe('idle');
+  });
+
+  it('rejects a second start while one is in flight', () => {
+    expect(nextRecorderStatus('starting', { type: 'START' })).toBeNull();
+    expect(nextRecorderStatus('recording', { type: 'START' })).toBeNull();
+  });
+
+  it('does not start while the permission probe is pending', () => {
+    expect(nextRecorderStatus('requesting-permission', { type: 'START' })).toBeNull();
+    expect(nextRecorderStatus('requesting-permission', { type: 'PERMISSION_GRANTED' })).toBe('idle');
+  });
+
+  it('allows restarting capture without passing through idle', () => {
+    expect(nextRecorderStatus('recording', { type: 'RESTART' })).toBe('starting');
+    expect(nextRecorderStatus('paused', { type: 'RESTART' })).toBe('starting');
+    expect(nextRecorderStatus('idle', { type: 'RESTART' })).toBeNull();
+  });
+
+  it('can come back from a restart still paused', () => {
+    expect(nextRecorderStatus('starting', { type: 'STARTED_PAUSED' })).toBe('paused');
+    expect(nextRecorderStatus('recording', { type: 'STARTED_PAUSED' })).toBeNull();
+  });
+
+  it('recovers from error by starting again', () => {
+    expect(nextRecorderStatus('starting', { type: 'FAIL', error: 'boom' })).toBe('error');
+    expect(nextRecorderStatus('error', { type: 'START' })).toBe('starting');
+    expect(nextRecorderStatus('error', { type: 'RESTART' })).toBe('starting');
+  });
+
+  it('treats recording and paused as capturing', () => {
+    expect(isCapturing('recording')).toBe(true);
+    expect(isCapturing('paused')).toBe(true);
+    expect(isCapturing('stopping')).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { renderHook, act } from '@testing-library/react';
+import { useKioskTokenRefresh } from '@/features/kiosk/hooks/use-kiosk-token-refresh';
+import { apiClient } from '@/lib/api-client';
+import { useAuthStore } from '@/stores/auth-store';
+
+jest.mock('@/lib/api-client', () => ({
+  apiClient: { post: jest.fn() },
+}));
+
+const mockPost = apiClient.post as jest.Mock;
+
+const kiosk = {
+  groupInfo: {
+    id: 'group-1',
+    name: 'Group 1',
+    sessionId: 'session-1',
+    groupNumber: 1,
+    maxMembers: 4,
+    currentMembers: 2,
+  },
+  sessionInfo: { id: 'session-1', title: 'Biology', status: 'active' },
+};
+
+function signInKiosk(expiresAt: number) {
+  useAuthStore.getState().signIn(
+    { mode: 'kiosk', token: 'old-token', expiresAt, sessionId: 'session-1', groupId: 'group-1' },
+    kiosk,
+  );
+}
+
+describe('useKioskTokenRefresh', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockPost.mockReset();
+    useAuthStore.getState().signOut();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('refreshes before expiry with the current token sent explicitly', async () => {
+    const renewedAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    mockPost.mockResolvedValue({ data: { group_access_token: 'new-token', expiresAt: renewedAt } });
+    signInKiosk(Date.now() + 5 * 60 * 1000);
+
+    renderHook(() => useKioskTokenRefresh());
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(3 * 60 * 1000);
+    });
+
+    expect(mockPost).toHaveBeenCalledWith('/kiosk/groups/group-1/refresh', undefined, {
+      headers: { Authorization: 'Bearer old-token' },
+    });
+    expect(useAuthStore.getState().credentials).toMatchObject({
+      mode: 'kiosk',
+      token: 'new-token',
+      expiresAt: Date.parse(renewedAt),
+    });
+  });
+
+  it('schedules nothing for a student sign-in', async () => {
+    useAuthStore.getState().signIn({
+      mode: 'student',
+      token: 'student-token',
+      expiresAt: Date.now() + 5 * 60 * 1000,
+      sessionId: 'session-1',
+      groupId: null,
+    });
+
+    renderHook(() => useKioskTokenRefresh());
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+    });
+
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { SocketProvider } from '@/components/providers/socket-provider';
+import { useAudioChunkBuffer } from '@/features/offline-sync/hooks/use-audio-chunk-buffer';
+import type { BufferedAudioChunk } from '@/features/offline-sync/lib/audio-chunk-store';
+import type { AudioTransport, AudioTransportKind } from '@/lib/audio-transport';
+import { createInMemorySocketFactory } from '@/__tests__/helpers/in-memory-socket';
+import { createWebSocketService } from '@/lib/websocket';
+
+// IndexedDB stand-in keyed like the real store: session, group, sequence
+const mockChunks = new Map<string, BufferedAudioChunk>();
+
+jest.mock('@/features/offline-sync/lib/audio-chunk-store', () => {
+  const keyOf = (chunk: Pick<BufferedAudioChunk, 'sessionId' | 'groupId' | 'sequence'>) =>
+    `${chunk.sessionId}:${chunk.groupId}:${chunk.sequence}`;
+  const stream = (sessionId: string, groupId: string) =>
+    Array.from(mockChunks.values())
+      .filter((chunk) => chunk.sessionId === sessionId && chunk.groupId === groupId)
+      .sort((a, b) => a.sequence - b.sequence);
+  return {
+    audioChunkStore: {
+      isSupported: () => true,
+      putChunk: async (chunk: BufferedAudioChunk) => {
+        mockChunks.set(keyOf(chunk), chunk);
+      },
+      listChunks: async (sessionId: string, groupId: string) => stream(sessionId, groupId),
+      countChunks: async (sessionId: string, groupId: string) => stream(sessionId, groupId).length,
+      getLastSequence: async (sessionId: string, groupId: string) =>
+        stream(sessionId, groupId).pop()?.sequence ?? 0,
+      removeChunk: async (chunk: BufferedAudioChunk) => {
+        mockChunks.delete(keyOf(chunk));
+      },
+    },
+  };
+});
+
+interface PendingSend {
+  timestamp: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// Sends stay pending until the test acknowledges or fails them
+function createFakeTransport(kind: AudioTransportKind, maxInFlight = 120) {
+  const sends: PendingSend[] = [];
+  const transport: AudioTransport = {
+    kind,
+    maxInFlight,
+    isReady: () => true,
+    startStream: jest.fn(),
+    endStream: jest.fn(),
+    pauseStream: jest.fn(),
+    resumeStream: jest.fn(),
+    startPrivacyPause: jest.fn(),
+    endPrivacyPause: jest.fn(),
+    reportError: jest.fn(),
+    sendChunk: jest.fn(
+      (_groupId: string, _audioData: ArrayBuffer, _mimeType: string, timestamp: number) =>
+        new Promise<void>((resolve, reject) => sends.push({ timestamp, resolve, reject })),
+    ),
+  };
+  return { transport, sends };
+}
+
+// jsdom's Blob has no arrayBuffer()
+function audioBlob(): Blob {
+  return Object.assign(new Blob(['audio']), {
+    arrayBuffer: () => Promise.resolve(new ArrayBuffer(5)),
+  });
+}
+
+function seedChunk(sequence: number) {
+  const chunk: BufferedAudioChunk = {
+    sessionId: 'session-1',
+    groupId: 'group-1',
+    sequence,
+    // Doubles as the chunk's identity in the fake transport
+    capturedAt: sequence,
+    durationMs: 2000,
+    mimeType: 'audio/webm',
+    data: audioBlob(),
+  };
+  mockChunks.set(`session-1:group-1:${sequence}`, chunk);
+}
+
+beforeEach(() => {
+  mockChunks.clear();
+});
+
+function renderBuffer(transport: AudioTransport, isConnected: boolean) {
+  return renderHook(
+    (props: { isConnected: boolean }) =>
+      useAudioChunkBuffer({
+        sessionId: 'session-1',
+        groupId: 'group-1',
+        isConnected: props.isConnected,
+        transport,
+      }),
+    { initialProps: { isConnected } },
+  );
+}
+
+const storedSequences = () =>
+  Array.from(mockChunks.values(), (chunk) => chunk.sequence).sort((a, b) => a - b);
+
+describe('useAudioChunkBuffer', () => {
+  it('stores captured chunks while offline, numbered after what is already stored', async () => {
+    seedChunk(4);
+    const { transport } = createFakeTransport('websocket');
+    const { result } = renderBuffer(transport, false);
+
+    await act(async () => {
+      await result.current.capture(audioBlob(), 'audio/webm', 2000);
+      await result.current.capture(audioBlob(), 'audio/webm', 2000);
+    });
+
+    expect(storedSequences()).toEqual([4, 5, 6]);
+    expect(result.current.pendingCount).toBe(3);
+    expect(transport.sendChunk).not.toHaveBeenCalled();
+  });
+
+  it('replays the backlog in order once connected', async () => {
+    seedChunk(1);
+    seedChunk(2);
+    seedChunk(3);
+    const { transport, sends } = createFakeTransport('websocket');
+    const { rerender } = renderBuffer(transport, false);
+
+    rerender({ isConnected: true });
+
+    await waitFor(() => expect(sends).toHaveLength(3));
+    expect(sends.map(({ timestamp }) => timestamp)).toEqual([1, 2, 3]);
+  });
+
+  it('deletes a chunk only after the transport acknowledges it', async () => {
+    seedChunk(1);
+    seedChunk(2);
+    const { transport, sends } = createFakeTransport('websocket');
+    const { result } = renderBuffer(transport, true);
+    await waitFor(() => expect(sends).toHaveLength(2));
+    expect(storedSequences()).toEqual([1, 2]);
+
+    await act(async () => {
+      sends[0].resolve();
+    });
+
+    expect(storedSequences()).toEqual([2]);
+    await waitFor(() => expect(result.current.pendingCount).toBe(1));
+  });
+
+  it('keeps a chunk whose send failed and sends it again on the next drain', async () => {
+    seedChunk(1);
+    const { transport, sends } = createFakeTransport('websocket');
+    const { result } = renderBuffer(transport, true);
+    await waitFor(() => expect(sends).toHaveLength(1));
+
+    await act(async () => {
+      sends[0].reject(new Error('WebSocket disconnected'));
+    });
+    expect(storedSequences()).toEqual([1]);
+
+    await act(async () => {
+      await result.current.drain();
+    });
+    expect(sends).toHaveLength(2);
+    expect(sends[1].timestamp).toBe(1);
+    // Same id, so the transport reuses the stream position the first attempt had
+    const [first, second] = (transport.sendChunk as jest.Mock).mock.calls;
+    expect(second[4]).toBe(first[4]);
+  });
+
+  it('keeps no more chunks waiting than the transport takes at once', async () => {
+    seedChunk(1);
+    seedChunk(2);
+    seedChunk(3);
+    const { transport, sends } = createFakeTransport('websocket', 2);
+    renderBuffer(transport, true);
+    await waitFor(() => expect(sends).toHaveLength(2));
+
+    await act(async () => {
+      sends[0].resolve();
+    });
+
+    await waitFor(() => expect(sends).toHaveLength(3));
+    expect(sends[2].timestamp).toBe(3);
+  });
+
+  it('does not send a chunk twice while it waits for its ack', async () => {
+    seedChunk(1);
+    const { transport, sends } = createFakeTransport('websocket');
+    const { result } = renderBuffer(transport, true);
+    await waitFor(() => expect(sends).toHaveLength(1));
+
+    await act(async () => {
+      await result.current.drain();
+    });
+
+    expect(sends).toHaveLength(1);
+  });
+});
+
+describe('useAudioChunkBuffer flush', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports the chunks that never reached the server', async () => {
+    seedChunk(1);
+    seedChunk(2);
+    const { transport, sends } = createFakeTransport('websocket');
+    const { result } = renderBuffer(transport, true);
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(0);
+    });
+    expect(sends).toHaveLength(2);
+
+    let unsynced: number | undefined;
+    await act(async () => {
+      const flushed = result.current.flush(1000).then((count) => {
+        unsynced = count;
+      });
+      sends[0].resolve();
+      await jest.advanceTimersByTimeAsync(1000);
+      await flushed;
+    });
+
+    expect(unsynced).toBe(1);
+  });
+});
+
+describe('useAudioChunkBuffer across a transport switch', () => {
+  it('does not resend a chunk when the old transport settles after the switch', async () => {
+    seedChunk(1);
+    seedChunk(2);
+    const socket = createFakeTransport('websocket');
+    const http = createFakeTransport('http');
+
+    const { result, rerender } = renderHook(
+      ({ transport }) =>
+        useAudioChunkBuffer({
+          sessionId: 'session-1',
+          groupId: 'group-1',
+          isConnected: true,
+          transport,
+        }),
+      { initialProps: { transport: socket.transport } },
+    );
+    await waitFor(() => expect(socket.sends).toHaveLength(2));
+
+    rerender({ transport: http.transport });
+    await waitFor(() => expect(http.sends).toHaveLength(2));
+
+    // The socket gives up on its window only now, while HTTP is still sending
+    await act(async () => {
+      socket.sends.forEach(({ reject }) => reject(new Error('Audio moved to another transport')));
+    });
+    await act(async () => {
+      await result.current.drain();
+    });
+
+    expect(http.transport.sendChunk).toHaveBeenCalledTimes(2);
+    expect(mockChunks.size).toBe(2);
+  });
+});
+
+describe('useAudioChunkBuffer default transport', () => {
+  it('sends through the socket service from SocketProvider', async () => {
+    seedChunk(1);
+    const createSocket = createInMemorySocketFactory();
+    const service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+    createSocket.sockets[0].open();
+
+    renderHook(
+      () => useAudioChunkBuffer({ sessionId: 'session-1', groupId: 'group-1', isConnected: true }),
+      {
+        wrapper: ({ children }: { children: React.ReactNode }) => (
+          <SocketProvider service={service}>{children}</SocketProvider>
+        ),
+      },
+    );
+
+    await waitFor(() => expect(createSocket.sockets[0].sentEvents('audio:chunk')).toHaveLength(1));
+    service.disconnect();
+  });
+});
@@ -0,0 +1,147 @@
+import { renderHook, act } from '@testing-library/react';
+import { useUploadManager } from '@/features/offline-sync/hooks/use-upload-manager';
+import { uploadRecordingBatch } from '@/features/offline-sync/api/upload-recording';
+import type { BufferedAudioChunk } from '@/features/offline-sync/lib/audio-chunk-store';
+
+// IndexedDB stand-in: the chunks of one buffered recording, by sequence
+const mockChunks = new Map<number, BufferedAudioChunk>();
+
+jest.mock('@/features/offline-sync/lib/audio-chunk-store', () => {
+  const stored = () => Array.from(mockChunks.values()).sort((a, b) => a.sequence - b.sequence);
+  return {
+    audioChunkStore: {
+      isSupported: () => true,
+      listChunks: async () => stored(),
+      listRecordings: async () => {
+        const chunks = stored();
+        if (chunks.length === 0) return [];
+        return [
+          {
+            sessionId: 'session-1',
+            groupId: 'group-1',
+            chunkCount: chunks.length,
+            sizeBytes: chunks.length * 5,
+            durationMs: chunks.length * 2000,
+            startedAt: 0,
+          },
+        ];
+      },
+      removeChunks: async (_sessionId: string, _groupId: string, sequences: number[]) => {
+        sequences.forEach((sequence) => mockChunks.delete(sequence));
+      },
+    },
+  };
+});
+
+jest.mock('@/features/offline-sync/api/upload-recording', () => ({
+  uploadRecordingBatch: jest.fn(),
+}));
+
+const mockUpload = uploadRecordingBatch as jest.Mock;
+
+type UploadRequest = { chunks: BufferedAudioChunk[] };
+const sequencesOf = (request: UploadRequest) => request.chunks.map((chunk) => chunk.sequence);
+const acknowledgeAll = async (request: UploadRequest) => ({
+  uploadId: 'upload-1',
+  receivedSequences: sequencesOf(request),
+});
+
+function seedChunks(count: number) {
+  for (let sequence = 1; sequence <= count; sequence++) {
+    mockChunks.set(sequence, {
+      sessionId: 'session-1',
+      groupId: 'group-1',
+      sequence,
+      capturedAt: sequence * 2000,
+      durationMs: 2000,
+      mimeType: 'audio/webm',
+      data: new Blob(['audio']),
+    });
+  }
+}
+
+async function renderManager() {
+  const hook = renderHook(() => useUploadManager());
+  await act(async () => {
+    await jest.advanceTimersByTimeAsync(0);
+  });
+  return hook;
+}
+
+describe('useUploadManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockChunks.clear();
+    mockUpload.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('uploads a recording in batches and deletes what the server received', async () => {
+    seedChunks(20);
+    mockUpload.mockImplementation(acknowledgeAll);
+    const { result } = await renderManager();
+    expect(result.current.items).toHaveLength(1);
+
+    await act(async () => {
+      await result.current.uploadAll();
+    });
+
+    expect(mockUpload.mock.calls.map(([request]) => request.chunks.length)).toEqual([15, 5]);
+    expect(mockChunks.size).toBe(0);
+    expect(result.current.items).toEqual([]);
+  });
+
+  it('keeps unacknowledged chunks and retries them with backoff', async () => {
+    seedChunks(3);
+    // The server only took the first chunk the first time round
+    mockUpload
+      .mockImplementationOnce(async () => ({ uploadId: 'upload-1', receivedSequences: [1] }))
+      .mockImplementation(acknowledgeAll);
+    const { result } = await renderManager();
+
+    let done = false;
+    act(() => {
+      void result.current.uploadAll().then(() => {
+        done = true;
+      });
+    });
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(0);
+    });
+    expect(Array.from(mockChunks.keys())).toEqual([2, 3]);
+    expect(mockUpload).toHaveBeenCalledTimes(1);
+    expect(result.current.items[0].progress).toBeCloseTo(1 / 3);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(999);
+    });
+    expect(mockUpload).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1);
+    });
+    expect(done).toBe(true);
+    expect(mockChunks.size).toBe(0);
+    // The retry carried only what the server had not acknowledged
+    expect(sequencesOf(mockUpload.mock.calls[1][0])).toEqual([2, 3]);
+  });
+
+  it('marks the recording failed and keeps its chunks once retries run out', async () => {
+    seedChunks(2);
+    mockUpload.mockRejectedValue(new Error('Network Error'));
+    const { result } = await renderManager();
+
+    await act(async () => {
+      const upload = result.current.uploadAll();
+      await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000 + 16000);
+      await upload;
+    });
+
+    expect(mockUpload).toHaveBeenCalledTimes(6);
+    expect(mockChunks.size).toBe(2);
+    expect(result.current.items[0]).toMatchObject({ status: 'failed', error: 'Network Error' });
+  });
+});
@@ -0,0 +1,29 @@
+import {
+  canTransitionSession,
+  nextSessionStatus,
+  parseSessionStatus,
+} from '@/features/session-lifecycle/lib/session-lifecycle';
+
+describe('session lifecycle', () => {
+  it('moves from the lobby into an active session and back through pauses', () => {
+    expect(nextSessionStatus('waiting', 'active')).toBe('active');
+    expect(nextSessionStatus('active', 'paused')).toBe('paused');
+    expect(nextSessionStatus('paused', 'active')).toBe('active');
+  });
+
+  it('treats ended as terminal', () => {
+    expect(nextSessionStatus('active', 'ended')).toBe('ended');
+    expect(nextSessionStatus('ended', 'active')).toBe('ended');
+    expect(canTransitionSession('ended', 'waiting')).toBe(false);
+  });
+
+  it('ignores updates that would move a started session back to the lobby', () => {
+    expect(nextSessionStatus('active', 'waiting')).toBe('active');
+  });
+
+  it('ignores unknown status strings', () => {
+    expect(nextSessionStatus('active', 'archived')).toBe('active');
+    expect(parseSessionStatus(undefined, 'waiting')).toBe('waiting');
+    expect(parseSessionStatus('paused', 'waiting')).toBe('paused');
+  });
+});
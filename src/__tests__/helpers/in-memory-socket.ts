@@ -0,0 +1,73 @@
+import type { SocketFactory, SocketLike } from '@/lib/websocket';
+
+type Listener = (...args: never[]) => void;
+
+/**
+ * Stands in for a socket.io client so a service can be driven without a server:
+ * `open()`/`close()` simulate the connection and `receive()` delivers a server
+ * event. Everything the client emits is recorded in `sent`.
+ */
+export class InMemorySocket implements SocketLike {
+  connected = false;
+  auth: unknown;
+  readonly sent: Array<{ event: string; payload: unknown }> = [];
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(auth?: unknown) {
+    this.auth = auth;
+  }
+
+  on(event: string, listener: Listener) {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return this;
+  }
+
+  emit(event: string, payload?: unknown) {
+    this.sent.push({ event, payload });
+    return this;
+  }
+
+  disconnect() {
+    this.close('io client disconnect');
+    return this;
+  }
+
+  open() {
+    this.connected = true;
+    this.fire('connect');
+  }
+
+  close(reason = 'transport close') {
+    if (!this.connected) return;
+    this.connected = false;
+    this.fire('disconnect', reason);
+  }
+
+  receive(event: string, payload?: unknown) {
+    this.fire(event, payload);
+  }
+
+  sentEvents(event: string): unknown[] {
+    return this.sent.filter((message) => message.event === event).map((message) => message.payload);
+  }
+
+  private fire(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.forEach((listener) => (listener as (...args: unknown[]) => void)(...args));
+  }
+}
+
+/** A `createSocket` option that hands out in-memory sockets, newest last in `sockets`. */
+export function createInMemorySocketFactory(): SocketFactory & { sockets: InMemorySocket[] } {
+  const sockets: InMemorySocket[] = [];
+  const factory = (_url: string, options: { auth?: unknown }) => {
+    const socket = new InMemorySocket(options.auth);
+    sockets.push(socket);
+    return socket;
+  };
+  return Object.assign(factory, { sockets });
+}
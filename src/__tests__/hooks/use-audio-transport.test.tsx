@@ -0,0 +1,113 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { SocketProvider } from '@/components/providers/socket-provider';
+import { useAudioTransport } from '@/hooks/use-audio-transport';
+import { createInMemorySocketFactory } from '@/__tests__/helpers/in-memory-socket';
+import { createWebSocketService, type GroupKioskWebSocketService } from '@/lib/websocket';
+
+jest.mock('@/lib/api-client', () => ({
+  apiClient: { post: jest.fn(() => Promise.resolve({ data: {} })) },
+}));
+
+describe('useAudioTransport', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <SocketProvider service={service}>{children}</SocketProvider>
+  );
+
+  function renderTransport() {
+    return renderHook(({ isConnected }) => useAudioTransport(isConnected), {
+      wrapper,
+      initialProps: { isConnected: false },
+    });
+  }
+
+  function advance(ms: number) {
+    act(() => {
+      jest.advanceTimersByTime(ms);
+    });
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('falls back to HTTP once the socket has failed to connect for 15 seconds', () => {
+    const { result } = renderTransport();
+
+    advance(15000);
+    expect(result.current.kind).toBe('websocket');
+
+    advance(5000);
+    expect(result.current.kind).toBe('http');
+  });
+
+  it('stays on the socket when it connects within the grace period', () => {
+    const { result, rerender } = renderTransport();
+
+    advance(10000);
+    act(() => createSocket.sockets[0].open());
+    rerender({ isConnected: true });
+    advance(20000);
+
+    expect(result.current.kind).toBe('websocket');
+  });
+
+  it('falls back to HTTP when a chunk waits more than 10 seconds for its ack', () => {
+    act(() => createSocket.sockets[0].open());
+    const { result } = renderHook(() => useAudioTransport(true), { wrapper });
+    result.current.transport.startStream('group-1', {
+      mimeType: 'audio/webm;codecs=opus',
+      sampleRate: 48000,
+    });
+    result.current.transport
+      .sendChunk('group-1', new ArrayBuffer(8), 'audio/webm;codecs=opus', 1000)
+      .catch(() => undefined);
+
+    advance(10000);
+    expect(result.current.kind).toBe('websocket');
+
+    advance(5000);
+    expect(result.current.kind).toBe('http');
+  });
+
+  it('stays on HTTP for at least a minute before returning to the socket', () => {
+    const { result, rerender } = renderTransport();
+    advance(20000);
+    expect(result.current.kind).toBe('http');
+
+    act(() => createSocket.sockets[0].open());
+    rerender({ isConnected: true });
+    advance(60000);
+    expect(result.current.kind).toBe('http');
+
+    advance(5000);
+    expect(result.current.kind).toBe('websocket');
+  });
+
+  it('reports HTTP readiness from the browser online state', () => {
+    const { result } = renderTransport();
+    advance(20000);
+    expect(result.current.isReady).toBe(true);
+
+    act(() => {
+      window.dispatchEvent(new Event('offline'));
+    });
+    expect(result.current.isReady).toBe(false);
+
+    act(() => {
+      window.dispatchEvent(new Event('online'));
+    });
+    expect(result.current.isReady).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { SocketProvider } from '@/components/providers/socket-provider';
+import { useSessionSocket } from '@/hooks/use-session-socket';
+import { useWebSocket } from '@/hooks/use-websocket';
+import { createInMemorySocketFactory } from '@/__tests__/helpers/in-memory-socket';
+import { createWebSocketService, type GroupKioskWebSocketService } from '@/lib/websocket';
+import { useAuthStore } from '@/stores/auth-store';
+import { useStudentStore } from '@/stores/student-store';
+
+describe('useWebSocket', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <SocketProvider service={service}>{children}</SocketProvider>
+  );
+
+  beforeEach(() => {
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+    useAuthStore.getState().signIn({
+      mode: 'student',
+      token: 'token',
+      expiresAt: null,
+      sessionId: 'session-1',
+      groupId: null,
+    });
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    useAuthStore.getState().signOut();
+  });
+
+  it('re-renders when the connection opens and closes', () => {
+    renderHook(() => useSessionSocket(), { wrapper });
+    const { result } = renderHook(() => useWebSocket(), { wrapper });
+    expect(result.current.isConnected).toBe(false);
+
+    act(() => createSocket.sockets[0].open());
+    expect(result.current.isConnected).toBe(true);
+
+    act(() => createSocket.sockets[0].close('transport close'));
+    expect(result.current.isConnected).toBe(false);
+  });
+
+  it('keeps the connection and its rooms when a page unmounts', () => {
+    renderHook(() => useSessionSocket(), { wrapper });
+    const lobby = renderHook(() => useWebSocket(), { wrapper });
+    act(() => createSocket.sockets[0].open());
+
+    lobby.unmount();
+    const session = renderHook(() => useWebSocket(), { wrapper });
+
+    expect(createSocket.sockets).toHaveLength(1);
+    expect(createSocket.sockets[0].sentEvents('session:leave')).toEqual([]);
+    expect(session.result.current.isConnected).toBe(true);
+  });
+
+  it('hands a new token to the live socket without reconnecting', () => {
+    renderHook(() => useSessionSocket(), { wrapper });
+    act(() => createSocket.sockets[0].open());
+
+    act(() =>
+      useStudentStore
+        .getState()
+        .setAuth('token-2', { id: 'student-1', name: 'Ada', sessionId: 'session-1' }),
+    );
+
+    expect(createSocket.sockets).toHaveLength(1);
+    expect(createSocket.sockets[0].auth).toEqual({ token: 'token-2' });
+    expect(createSocket.sockets[0].sentEvents('auth:refresh')).toEqual([{ token: 'token-2' }]);
+  });
+
+  it('reports session status changes the connection stores', () => {
+    const onSessionStatusChanged = jest.fn();
+    useStudentStore
+      .getState()
+      .setSession({ id: 'session-1', title: 'Maths', code: 'ABC', status: 'active' });
+    renderHook(() => useSessionSocket(), { wrapper });
+    renderHook(() => useWebSocket({ onSessionStatusChanged }), { wrapper });
+    act(() => createSocket.sockets[0].open());
+
+    act(() =>
+      createSocket.sockets[0].receive('session:status_changed', {
+        sessionId: 'session-1',
+        status: 'paused',
+      }),
+    );
+
+    expect(onSessionStatusChanged).toHaveBeenCalledWith('paused');
+  });
+
+  it('passes on teacher recording commands for this group only', () => {
+    const onGroupRecording = jest.fn();
+    useStudentStore.getState().setGroup({ id: 'group-1', name: 'Group 1', members: [] });
+    renderHook(() => useSessionSocket(), { wrapper });
+    renderHook(() => useWebSocket({ onGroupRecording }), { wrapper });
+    act(() => createSocket.sockets[0].open());
+
+    act(() => {
+      createSocket.sockets[0].receive('group:recording', { groupId: 'group-2', isRecording: true });
+      createSocket.sockets[0].receive('group:recording', { groupId: 'group-1', isRecording: true });
+      createSocket.sockets[0].receive('group:recording', {
+        groupId: 'group-1',
+        isRecording: false,
+      });
+    });
+
+    expect(onGroupRecording.mock.calls).toEqual([[true], [false]]);
+    useStudentStore.getState().setGroup(null);
+  });
+});
@@ -0,0 +1,86 @@
+import { HttpAudioTransport } from '@/lib/audio-transport';
+import { apiClient } from '@/lib/api-client';
+
+jest.mock('@/lib/api-client', () => ({
+  apiClient: { post: jest.fn() },
+}));
+
+jest.mock('@/lib/websocket', () => {
+  let counter = 0;
+  return {
+    createStreamId: () => `stream-${++counter}`,
+  };
+});
+
+const mockPost = apiClient.post as jest.Mock;
+
+async function readMetadata(call: unknown[]) {
+  const form = call[1] as FormData;
+  return JSON.parse(form.get('metadata') as string);
+}
+
+describe('HttpAudioTransport', () => {
+  beforeEach(() => {
+    mockPost.mockReset();
+    mockPost.mockResolvedValue({ data: {} });
+  });
+
+  it('posts chunks with audio:chunk metadata and increasing sequences', async () => {
+    const transport = new HttpAudioTransport();
+    transport.startStream('group-1', { mimeType: 'audio/webm;codecs=opus', sampleRate: 48000 });
+
+    await transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/webm;codecs=opus', 1000);
+    await transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/webm;codecs=opus', 3000);
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(mockPost.mock.calls[0][0]).toBe('/groups/group-1/audio/chunks');
+    const [first, second] = await Promise.all(mockPost.mock.calls.map(readMetadata));
+    expect(first).toMatchObject({ groupId: 'group-1', sequence: 0, format: 'audio/webm;codecs=opus', timestamp: 1000 });
+    expect(second).toMatchObject({ streamId: first.streamId, sequence: 1, timestamp: 3000 });
+  });
+
+  it('posts a retried chunk with the sequence its first attempt had', async () => {
+    const transport = new HttpAudioTransport();
+    mockPost.mockRejectedValueOnce(new Error('Network Error'));
+
+    await expect(
+      transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/mp4', 1000, 'c-1'),
+    ).rejects.toThrow('Network Error');
+    await transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/mp4', 1000, 'c-1');
+    await transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/mp4', 3000, 'c-2');
+
+    const [failed, retried, next] = await Promise.all(mockPost.mock.calls.map(readMetadata));
+    expect(retried).toMatchObject({ streamId: failed.streamId, sequence: failed.sequence });
+    expect(next.sequence).toBe(failed.sequence + 1);
+  });
+
+  it('starts a fresh stream after the previous one ends', async () => {
+    const transport = new HttpAudioTransport();
+    await transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/mp4', 1000);
+    transport.endStream('group-1');
+    await transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/mp4', 2000);
+
+    const chunkCalls = mockPost.mock.calls.filter(([url]) => url.endsWith('/chunks'));
+    const [first, second] = await Promise.all(chunkCalls.map(readMetadata));
+    expect(second.streamId).not.toBe(first.streamId);
+    expect(second.sequence).toBe(0);
+    expect(mockPost).toHaveBeenCalledWith(`/groups/group-1/audio/streams/${first.streamId}/end`);
+  });
+
+  it('posts stream markers tagged with the open stream', async () => {
+    const transport = new HttpAudioTransport();
+    await transport.sendChunk('group-1', new ArrayBuffer(8), 'audio/mp4', 1000);
+    const { streamId } = await readMetadata(mockPost.mock.calls[0]);
+
+    transport.pauseStream('group-1');
+    transport.startPrivacyPause('group-1');
+    transport.reportError('group-1', 'Microphone disconnected');
+
+    const events = mockPost.mock.calls.filter(([url]) => url === '/groups/group-1/audio/events');
+    expect(events.map(([, body]) => body)).toEqual([
+      { type: 'audio:stream:pause', streamId, timestamp: expect.any(Number) },
+      { type: 'audio:privacy:start', streamId, timestamp: expect.any(Number) },
+      { type: 'audio:error', streamId, timestamp: expect.any(Number), error: 'Microphone disconnected' },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  emitAuthExpired,
+  isAuthExpiredReason,
+  onAuthExpired,
+  registerExpiryPrompt,
+  registerSignOutTask,
+  runSignOutTasks,
+  showExpiryPrompts,
+} from '@/lib/auth-events';
+
+describe('auth events', () => {
+  it('delivers auth-expired events until the listener unsubscribes', () => {
+    const listener = jest.fn();
+    const unsubscribe = onAuthExpired(listener);
+
+    emitAuthExpired({ reason: 'unauthorized', url: '/sessions/abc' });
+    unsubscribe();
+    emitAuthExpired({ reason: 'unauthorized' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ reason: 'unauthorized', url: '/sessions/abc' });
+  });
+
+  it('runs every sign-out task even when one fails', async () => {
+    const saved = jest.fn();
+    const unregisterFailing = registerSignOutTask(() => {
+      throw new Error('mic already gone');
+    });
+    const unregisterSaving = registerSignOutTask(async () => saved());
+
+    await expect(runSignOutTasks()).resolves.toBeUndefined();
+    expect(saved).toHaveBeenCalled();
+
+    unregisterFailing();
+    unregisterSaving();
+  });
+
+  it('only accepts known reasons from the URL', () => {
+    expect(isAuthExpiredReason('unauthorized')).toBe(true);
+    expect(isAuthExpiredReason('toString')).toBe(false);
+    expect(isAuthExpiredReason(null)).toBe(false);
+  });
+});
+
+describe('expiry prompts', () => {
+  it('shows registered prompts and reports whether any page could handle the expiry', () => {
+    expect(showExpiryPrompts()).toBe(false);
+
+    const prompt = jest.fn();
+    const unregister = registerExpiryPrompt(prompt);
+    expect(showExpiryPrompts()).toBe(true);
+    expect(prompt).toHaveBeenCalledTimes(1);
+
+    unregister();
+    expect(showExpiryPrompts()).toBe(false);
+    expect(prompt).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,31 @@
+import { rateConnection, summarizeHeartbeats } from '@/lib/connection-quality';
+
+describe('connection quality', () => {
+  it('averages round trips and their variation', () => {
+    expect(summarizeHeartbeats([100, 120, 80], 0)).toEqual({
+      latencyMs: 100,
+      jitterMs: 30,
+      missedBeats: 0,
+      quality: 'good',
+    });
+  });
+
+  it('has no latency or jitter before the first pong', () => {
+    const stats = summarizeHeartbeats([], 0);
+    expect(stats.latencyMs).toBeNull();
+    expect(stats.jitterMs).toBeNull();
+    expect(stats.quality).toBe('degraded');
+  });
+
+  it('degrades on slow or jittery links and on a single missed beat', () => {
+    expect(rateConnection(200, 10, 0)).toBe('degraded');
+    expect(rateConnection(100, 80, 0)).toBe('degraded');
+    expect(rateConnection(100, 10, 1)).toBe('degraded');
+  });
+
+  it('is poor on very slow links or repeated missed beats', () => {
+    expect(rateConnection(500, 10, 0)).toBe('poor');
+    expect(rateConnection(100, 200, 0)).toBe('poor');
+    expect(rateConnection(100, 10, 2)).toBe('poor');
+  });
+});
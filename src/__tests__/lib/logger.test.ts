@@ -0,0 +1,95 @@
+import {
+  buildDiagnosticBundle,
+  clearLogEntries,
+  createLogger,
+  getLogEntries,
+  redact,
+  setConsoleLevel,
+} from '@/lib/logger';
+
+describe('redact', () => {
+  it('masks speech, names and credentials but keeps identifiers', () => {
+    const redacted = redact({
+      id: 't-1',
+      groupId: 'group-1',
+      groupName: 'Team Blue',
+      text: 'I think the answer is photosynthesis',
+      auth: { token: 'secret' },
+    });
+
+    expect(redacted).toEqual({
+      id: 't-1',
+      groupId: 'group-1',
+      groupName: '[redacted 9 chars]',
+      text: '[redacted 36 chars]',
+      auth: { token: '[redacted 6 chars]' },
+    });
+  });
+
+  it('summarises binary data and errors', () => {
+    expect(redact({ audioData: new ArrayBuffer(16) })).toEqual({ audioData: '[redacted]' });
+    expect(redact(new Uint8Array(4))).toBe('[Uint8Array 4 bytes]');
+    expect(redact(new TypeError('boom'))).toEqual({ name: 'TypeError', message: 'boom' });
+  });
+
+  it('bounds deep and long values', () => {
+    const nested = { a: { b: { c: { d: { e: 1 } } } } };
+    expect(redact(nested)).toEqual({ a: { b: { c: { d: '[truncated]' } } } });
+    expect(redact(Array.from({ length: 25 }, (_, i) => i))).toHaveLength(21);
+  });
+});
+
+describe('logger', () => {
+  let debugSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    clearLogEntries();
+    setConsoleLevel('warn');
+    debugSpy = jest.spyOn(console, 'debug').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    debugSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  it('records every level but only echoes those at or above the console level', () => {
+    const log = createLogger('socket');
+    log.debug('Group transcription received', { text: 'hello' });
+    log.warn('Outbound queue full');
+
+    expect(debugSpy).not.toHaveBeenCalled();
+    expect(warnSpy).toHaveBeenCalledWith('[socket] Outbound queue full');
+    expect(getLogEntries()).toEqual([
+      expect.objectContaining({
+        level: 'debug',
+        category: 'socket',
+        data: { text: '[redacted 5 chars]' },
+      }),
+      expect.objectContaining({ level: 'warn', message: 'Outbound queue full' }),
+    ]);
+  });
+
+  it('keeps only the most recent entries', () => {
+    const log = createLogger('audio');
+    for (let i = 0; i < 510; i++) {
+      log.debug(`entry ${i}`);
+    }
+
+    const entries = getLogEntries();
+    expect(entries).toHaveLength(500);
+    expect(entries[0].message).toBe('entry 10');
+  });
+
+  it('bundles entries with redacted context', () => {
+    createLogger('session').info('Joined session', { sessionId: 's-1' });
+
+    const bundle = buildDiagnosticBundle({ sessionId: 's-1', summary: { groupName: 'Team Blue' } });
+
+    expect(bundle.context).toEqual({ sessionId: 's-1', summary: { groupName: '[redacted 9 chars]' } });
+    expect(bundle.entries).toHaveLength(1);
+    expect(bundle.environment.path).toBe('/');
+  });
+});
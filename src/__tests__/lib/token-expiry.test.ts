@@ -0,0 +1,33 @@
+import {
+  getJwtExpiry,
+  msUntilRefresh,
+  resolveTokenExpiry,
+} from '@/lib/token-expiry';
+
+function makeJwt(claims: Record<string, unknown>) {
+  const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${encode({ alg: 'HS256' })}.${encode(claims)}.signature`;
+}
+
+describe('token expiry', () => {
+  it('reads the exp claim in milliseconds', () => {
+    expect(getJwtExpiry(makeJwt({ exp: 1_700_000_000 }))).toBe(1_700_000_000_000);
+  });
+
+  it('returns null for tokens without a readable exp', () => {
+    expect(getJwtExpiry('opaque-token')).toBeNull();
+    expect(getJwtExpiry(makeJwt({ sub: 'student-1' }))).toBeNull();
+  });
+
+  it('prefers the server expiry over the token claim', () => {
+    const token = makeJwt({ exp: 1_700_000_000 });
+    expect(resolveTokenExpiry(token, '2030-01-01T00:00:00.000Z')).toBe(Date.parse('2030-01-01T00:00:00.000Z'));
+    expect(resolveTokenExpiry(token, 'not a date')).toBe(1_700_000_000_000);
+  });
+
+  it('schedules the refresh ahead of expiry and never in the past', () => {
+    expect(msUntilRefresh(10 * 60_000, 0, 2 * 60_000)).toBe(8 * 60_000);
+    expect(msUntilRefresh(60_000, 0, 2 * 60_000)).toBe(0);
+  });
+});
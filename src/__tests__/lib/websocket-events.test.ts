@@ -0,0 +1,32 @@
+import { parseInboundEvent, WebSocketProtocolError } from '@/lib/websocket-events';
+
+describe('parseInboundEvent', () => {
+  it('returns payloads that match their schema', () => {
+    const data = parseInboundEvent('group:recording', { groupId: 'group-1', isRecording: true });
+    expect(data).toEqual({ groupId: 'group-1', isRecording: true });
+  });
+
+  it('keeps optional fields optional', () => {
+    const data = parseInboundEvent('group:joined', { groupId: 'group-1', sessionId: 'session-1' });
+    expect(data.groupName).toBeUndefined();
+  });
+
+  it('throws a protocol error naming the event and the bad field', () => {
+    expect(() => parseInboundEvent('audio:chunk:ack', { streamId: 's1', sequence: '3' })).toThrow(
+      WebSocketProtocolError,
+    );
+
+    try {
+      parseInboundEvent('audio:chunk:ack', { streamId: 's1', sequence: '3' });
+    } catch (error) {
+      expect((error as WebSocketProtocolError).event).toBe('audio:chunk:ack');
+      expect((error as WebSocketProtocolError).message).toContain('sequence');
+    }
+  });
+
+  it('rejects values outside an enum', () => {
+    expect(() =>
+      parseInboundEvent('group:status_changed', { groupId: 'group-1', status: 'sleeping' }),
+    ).toThrow(WebSocketProtocolError);
+  });
+});
@@ -0,0 +1,470 @@
+import { createWebSocketService, type GroupKioskWebSocketService } from '@/lib/websocket';
+import {
+  createInMemorySocketFactory,
+  type InMemorySocket,
+} from '@/__tests__/helpers/in-memory-socket';
+
+describe('createWebSocketService', () => {
+  it('connects through the injected socket with the token as auth', () => {
+    const createSocket = createInMemorySocketFactory();
+    const service = createWebSocketService({ url: 'ws://test', createSocket });
+
+    service.connect('token-1', {});
+
+    expect(createSocket.sockets).toHaveLength(1);
+    expect(createSocket.sockets[0].auth).toEqual({ token: 'token-1' });
+  });
+
+  it('keeps separate services isolated', () => {
+    const first = createInMemorySocketFactory();
+    const second = createInMemorySocketFactory();
+    const a = createWebSocketService({ createSocket: first });
+    const b = createWebSocketService({ createSocket: second });
+    a.connect('token-a', {});
+    b.connect('token-b', {});
+    first.sockets[0].open();
+    second.sockets[0].open();
+
+    a.joinSession('session-a');
+
+    expect(first.sockets[0].sentEvents('session:join')).toEqual([{ sessionId: 'session-a' }]);
+    expect(second.sockets[0].sentEvents('session:join')).toEqual([]);
+    a.disconnect();
+    b.disconnect();
+  });
+});
+
+describe('service.on', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+  const socket = (): InMemorySocket => createSocket.sockets[createSocket.sockets.length - 1];
+
+  beforeEach(() => {
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  it('delivers validated payloads to subscribers alongside the connect callbacks', () => {
+    const onGroupRecording = jest.fn();
+    const subscriber = jest.fn();
+    service.connect('token', { onGroupRecording });
+    service.on('group:recording', subscriber);
+
+    socket().receive('group:recording', { groupId: 'group-1', isRecording: true });
+
+    expect(subscriber).toHaveBeenCalledWith({ groupId: 'group-1', isRecording: true });
+    expect(onGroupRecording).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not deliver malformed payloads', () => {
+    const subscriber = jest.fn();
+    service.connect('token', {});
+    service.on('group:recording', subscriber);
+
+    socket().receive('group:recording', { groupId: 'group-1' });
+
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const subscriber = jest.fn();
+    service.connect('token', {});
+    const unsubscribe = service.on('session:status_changed', subscriber);
+    unsubscribe();
+
+    socket().receive('session:status_changed', { sessionId: 's-1', status: 'ended' });
+
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it('keeps subscriptions across reconnects and isolates failing subscribers', () => {
+    const failing = jest.fn(() => {
+      throw new Error('boom');
+    });
+    const subscriber = jest.fn();
+    service.on('group:ready', failing);
+    service.on('group:ready', subscriber);
+
+    service.connect('token', {});
+    service.disconnect();
+    service.connect('token', {});
+    socket().receive('group:ready', { groupId: 'group-1', sessionId: 's-1' });
+
+    expect(createSocket.sockets).toHaveLength(2);
+    expect(failing).toHaveBeenCalled();
+    expect(subscriber).toHaveBeenCalledWith({ groupId: 'group-1', sessionId: 's-1' });
+  });
+});
+
+describe('audio chunk acknowledgements', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+  const socket = (): InMemorySocket => createSocket.sockets[createSocket.sockets.length - 1];
+  const chunkKeys = () =>
+    socket()
+      .sentEvents('audio:chunk')
+      .map((payload) => {
+        const { streamId, sequence } = payload as { streamId: string; sequence: number };
+        return `${streamId}:${sequence}`;
+      });
+
+  beforeEach(() => {
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+    socket().open();
+    service.startAudioStream('group-1');
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  it('numbers chunks within the stream and resolves each on its own ack', async () => {
+    const first = service.sendAudioChunk('group-1', new ArrayBuffer(4));
+    const second = service.sendAudioChunk('group-1', new ArrayBuffer(4));
+    const [streamId] = chunkKeys()[0].split(':');
+    const resolved = jest.fn();
+    void second.then(resolved, () => undefined);
+
+    socket().receive('audio:chunk:ack', { streamId, sequence: 0 });
+
+    await expect(first).resolves.toBeUndefined();
+    expect(chunkKeys()).toEqual([`${streamId}:0`, `${streamId}:1`]);
+    expect(resolved).not.toHaveBeenCalled();
+  });
+
+  it('retransmits unacknowledged chunks with their original numbers on reconnect', () => {
+    void service.sendAudioChunk('group-1', new ArrayBuffer(4)).catch(() => undefined);
+    void service.sendAudioChunk('group-1', new ArrayBuffer(4)).catch(() => undefined);
+    const [streamId] = chunkKeys()[0].split(':');
+    socket().receive('audio:chunk:ack', { streamId, sequence: 0 });
+
+    socket().close();
+    socket().sent.length = 0;
+    socket().open();
+
+    expect(chunkKeys()).toEqual([`${streamId}:1`]);
+  });
+
+  it('holds chunks captured while offline until the socket is back', () => {
+    socket().close();
+    void service.sendAudioChunk('group-1', new ArrayBuffer(4)).catch(() => undefined);
+    expect(chunkKeys()).toEqual([]);
+
+    socket().open();
+
+    expect(chunkKeys()).toHaveLength(1);
+  });
+
+  it('evicts the oldest chunk once the window is full', async () => {
+    const oldest = service.sendAudioChunk('group-1', new ArrayBuffer(4));
+    for (let i = 0; i < 120; i++) {
+      void service.sendAudioChunk('group-1', new ArrayBuffer(4)).catch(() => undefined);
+    }
+
+    await expect(oldest).rejects.toThrow('evicted');
+  });
+
+  it('gives a chunk sent again under the same id its original stream position', async () => {
+    const evicted = service.sendAudioChunk('group-1', new ArrayBuffer(4), 'audio/webm', 1, 'c-1');
+    for (let i = 0; i < 120; i++) {
+      void service.sendAudioChunk('group-1', new ArrayBuffer(4)).catch(() => undefined);
+    }
+    await expect(evicted).rejects.toThrow('evicted');
+
+    void service
+      .sendAudioChunk('group-1', new ArrayBuffer(4), 'audio/webm', 1, 'c-1')
+      .catch(() => undefined);
+
+    const keys = chunkKeys();
+    expect(keys[keys.length - 1]).toBe(keys[0]);
+  });
+
+  it('rejects everything still waiting when the service disconnects', async () => {
+    const pending = service.sendAudioChunk('group-1', new ArrayBuffer(4));
+
+    service.disconnect();
+
+    await expect(pending).rejects.toThrow('WebSocket disconnected');
+  });
+});
+
+describe('speaking and mute presence', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+  const socket = (): InMemorySocket => createSocket.sockets[0];
+
+  beforeEach(() => {
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+    socket().open();
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  it('stays silent until a group is joined', () => {
+    service.startSpeaking();
+    service.updateMuteStatus(true);
+
+    expect(socket().sentEvents('group:speaking:start')).toEqual([]);
+    expect(socket().sentEvents('group:mute_status')).toEqual([]);
+  });
+
+  it('emits speaking turns and mute changes for the joined group only when they change', () => {
+    service.joinGroupSession('group-1', 'session-1');
+
+    service.startSpeaking();
+    service.startSpeaking();
+    service.stopSpeaking();
+    service.stopSpeaking();
+    service.updateMuteStatus(true);
+    service.updateMuteStatus(true);
+    service.updateMuteStatus(false);
+
+    expect(socket().sentEvents('group:speaking:start')).toEqual([
+      expect.objectContaining({ groupId: 'group-1' }),
+    ]);
+    expect(socket().sentEvents('group:speaking:stop')).toHaveLength(1);
+    expect(socket().sentEvents('group:mute_status')).toEqual([
+      expect.objectContaining({ groupId: 'group-1', isMuted: true }),
+      expect.objectContaining({ groupId: 'group-1', isMuted: false }),
+    ]);
+  });
+
+  it('announces presence afresh after a reconnect', () => {
+    service.joinGroupSession('group-1', 'session-1');
+    service.startSpeaking();
+    service.updateMuteStatus(false);
+
+    socket().close();
+    service.stopSpeaking();
+    socket().open();
+    service.startSpeaking();
+    service.updateMuteStatus(false);
+
+    expect(socket().sentEvents('group:speaking:start')).toHaveLength(2);
+    expect(socket().sentEvents('group:speaking:stop')).toEqual([]);
+    expect(socket().sentEvents('group:mute_status')).toHaveLength(2);
+  });
+});
+
+describe('privacy pause markers', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+  const socket = (): InMemorySocket => createSocket.sockets[0];
+
+  beforeEach(() => {
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+    socket().open();
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  it('marks the start and end of a pause on the current stream', () => {
+    service.startAudioStream('group-1');
+    const [{ streamId }] = socket().sentEvents('audio:stream:start') as Array<{ streamId: string }>;
+
+    service.startPrivacyPause('group-1');
+    service.endPrivacyPause('group-1');
+
+    expect(socket().sentEvents('audio:privacy:start')).toEqual([
+      expect.objectContaining({ groupId: 'group-1', streamId }),
+    ]);
+    expect(socket().sentEvents('audio:privacy:end')).toEqual([
+      expect.objectContaining({ groupId: 'group-1', streamId }),
+    ]);
+  });
+});
+
+describe('audio stream pause events', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+  const socket = (): InMemorySocket => createSocket.sockets[0];
+
+  beforeEach(() => {
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+    socket().open();
+    service.startAudioStream('group-1');
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  it('marks pauses and resumes on the current stream', () => {
+    const [{ streamId }] = socket().sentEvents('audio:stream:start') as Array<{ streamId: string }>;
+
+    service.pauseAudioStream('group-1');
+    service.resumeAudioStream('group-1');
+
+    expect(socket().sentEvents('audio:stream:pause')).toEqual([
+      expect.objectContaining({ groupId: 'group-1', streamId }),
+    ]);
+    expect(socket().sentEvents('audio:stream:resume')).toEqual([
+      expect.objectContaining({ groupId: 'group-1', streamId }),
+    ]);
+  });
+});
+
+describe('reconnect restore', () => {
+  let createSocket: ReturnType<typeof createInMemorySocketFactory>;
+  let service: GroupKioskWebSocketService;
+  const socket = (): InMemorySocket => createSocket.sockets[0];
+  // Heartbeats go out on every connect; the tests care about everything else
+  const sentEventNames = () =>
+    socket()
+      .sent.map(({ event }) => event)
+      .filter((event) => event !== 'heartbeat:ping');
+
+  const sentAfterReconnect = () => {
+    socket().close();
+    socket().sent.length = 0;
+    socket().open();
+    return sentEventNames();
+  };
+
+  beforeEach(() => {
+    createSocket = createInMemorySocketFactory();
+    service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+    socket().open();
+  });
+
+  afterEach(() => {
+    service.disconnect();
+  });
+
+  it('rejoins rooms, restarts the stream and retransmits before replaying queued markers', () => {
+    service.joinSession('session-1');
+    service.joinGroupSession('group-1', 'session-1');
+    service.startAudioStream('group-1', { mimeType: 'audio/webm', sampleRate: 48000 });
+    void service.sendAudioChunk('group-1', new ArrayBuffer(4)).catch(() => undefined);
+    socket().close();
+    service.pauseAudioStream('group-1');
+    service.resumeAudioStream('group-1');
+
+    socket().sent.length = 0;
+    socket().open();
+
+    expect(sentEventNames()).toEqual([
+      'session:join',
+      'group:join',
+      'audio:stream:start',
+      'audio:chunk',
+      'audio:stream:pause',
+      'audio:stream:resume',
+    ]);
+    expect(socket().sentEvents('group:join')).toEqual([
+      { groupId: 'group-1', sessionId: 'session-1' },
+    ]);
+  });
+
+  it('does not rejoin rooms that were left', () => {
+    service.joinSession('session-1');
+    service.joinGroupSession('group-1', 'session-1');
+    service.leaveGroupSession('group-1');
+    service.leaveSession('session-1');
+
+    expect(sentAfterReconnect()).toEqual([]);
+  });
+
+  it('sends joins made before the socket is up once it connects', () => {
+    socket().close();
+    socket().sent.length = 0;
+    service.joinSession('session-1');
+    service.joinGroupSession('group-1', 'session-1');
+    expect(sentEventNames()).toEqual([]);
+
+    socket().open();
+
+    expect(sentEventNames()).toEqual(['session:join', 'group:join']);
+  });
+
+  it('replays control messages queued while offline in the order they were made', () => {
+    service.startAudioStream('group-1', { mimeType: 'audio/webm', sampleRate: 48000 });
+    socket().close();
+    service.startPrivacyPause('group-1');
+    service.updateGroupStatus('group-1', false);
+    service.reportAudioError('group-1', 'Microphone disconnected');
+    service.endPrivacyPause('group-1');
+    service.updateGroupStatus('group-1', true);
+
+    expect(sentAfterReconnect().filter((event) => event !== 'audio:stream:start')).toEqual([
+      'audio:privacy:start',
+      'group:status_update',
+      'audio:error',
+      'audio:privacy:end',
+      'group:status_update',
+    ]);
+    expect(socket().sentEvents('group:status_update')).toEqual([
+      { groupId: 'group-1', isReady: false },
+      { groupId: 'group-1', isReady: true },
+    ]);
+  });
+
+  it('keeps only the newest queued control messages while offline', () => {
+    socket().close();
+    for (let i = 0; i < 51; i++) {
+      service.updateGroupStatus(`group-${i}`, true);
+    }
+
+    socket().open();
+
+    const replayed = socket().sentEvents('group:status_update') as Array<{ groupId: string }>;
+    expect(replayed).toHaveLength(50);
+    expect(replayed[0].groupId).toBe('group-1');
+    expect(replayed[49].groupId).toBe('group-50');
+  });
+});
+
+describe('service.abandonUnackedChunks', () => {
+  it('rejects waiting chunks so their send times no longer count as a stall', async () => {
+    jest.useFakeTimers();
+    const createSocket = createInMemorySocketFactory();
+    const service = createWebSocketService({ createSocket });
+    service.connect('token', {});
+    createSocket.sockets[0].open();
+
+    const sent = service.sendAudioChunk('group-1', new ArrayBuffer(4));
+    jest.advanceTimersByTime(30000);
+    expect(service.getAckStallMs()).toBe(30000);
+
+    service.abandonUnackedChunks();
+
+    await expect(sent).rejects.toThrow('Audio moved to another transport');
+    expect(service.getAckStallMs()).toBe(0);
+    service.disconnect();
+    jest.useRealTimers();
+  });
+});
+
+describe('service.onConnectionChange', () => {
+  it('notifies on connect and disconnect until unsubscribed', () => {
+    const createSocket = createInMemorySocketFactory();
+    const service = createWebSocketService({ createSocket });
+    const listener = jest.fn(() => service.isConnected());
+    const unsubscribe = service.onConnectionChange(listener);
+
+    service.connect('token', {});
+    createSocket.sockets[0].open();
+    createSocket.sockets[0].close('transport close');
+    unsubscribe();
+    service.disconnect();
+
+    expect(listener.mock.results.map(({ value }) => value)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  getAccessToken,
+  isCredentialValid,
+  migrateLegacyAuth,
+  useAuthStore,
+  type AuthCredentials,
+} from '@/stores/auth-store';
+
+const student: AuthCredentials = {
+  mode: 'student',
+  token: 'student-token',
+  expiresAt: null,
+  sessionId: 'session-1',
+  groupId: null,
+};
+
+describe('auth store', () => {
+  beforeEach(() => {
+    useAuthStore.getState().signOut();
+  });
+
+  it('hands out the token until it expires', () => {
+    useAuthStore.getState().signIn({ ...student, expiresAt: 2_000 });
+
+    expect(getAccessToken(1_999)).toBe('student-token');
+    expect(getAccessToken(2_000)).toBeNull();
+  });
+
+  it('treats credentials without an expiry as valid', () => {
+    expect(isCredentialValid(student)).toBe(true);
+    expect(isCredentialValid(null)).toBe(false);
+  });
+
+  it('keeps mode, session and group when the token is refreshed', () => {
+    useAuthStore.getState().signIn(
+      { mode: 'kiosk', token: 'old', expiresAt: 1_000, sessionId: 'session-1', groupId: 'group-1' },
+      {
+        groupInfo: {
+          id: 'group-1',
+          name: 'Group 1',
+          sessionId: 'session-1',
+          groupNumber: 1,
+          maxMembers: 4,
+          currentMembers: 2,
+        },
+        sessionInfo: { id: 'session-1', title: 'Biology', status: 'active' },
+      },
+    );
+
+    useAuthStore.getState().setToken('new', 5_000);
+
+    expect(useAuthStore.getState().credentials).toEqual({
+      mode: 'kiosk',
+      token: 'new',
+      expiresAt: 5_000,
+      sessionId: 'session-1',
+      groupId: 'group-1',
+    });
+    expect(useAuthStore.getState().kiosk?.groupInfo.name).toBe('Group 1');
+  });
+
+  it('ignores a refresh after signing out', () => {
+    useAuthStore.getState().setToken('late', 5_000);
+
+    expect(useAuthStore.getState().credentials).toBeNull();
+  });
+});
+
+describe('legacy credentials', () => {
+  // Anything already under the new key means there is nothing to import
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('imports kiosk keys from before the auth store and removes them', () => {
+    localStorage.setItem('group_access_token', 'kiosk-token');
+    localStorage.setItem('groupInfo', JSON.stringify({ id: 'group-7', name: 'Group 7' }));
+    localStorage.setItem('sessionInfo', JSON.stringify({ id: 'session-3', title: 'Maths', status: 'active' }));
+    localStorage.setItem('group_token_expires_at', '2030-01-01T00:00:00.000Z');
+
+    migrateLegacyAuth();
+
+    expect(useAuthStore.getState().credentials).toEqual({
+      mode: 'kiosk',
+      token: 'kiosk-token',
+      expiresAt: Date.parse('2030-01-01T00:00:00.000Z'),
+      sessionId: 'session-3',
+      groupId: 'group-7',
+    });
+    expect(localStorage.getItem('group_access_token')).toBeNull();
+    expect(localStorage.getItem('auth-storage')).not.toBeNull();
+  });
+
+  it('imports a token the student store used to persist', () => {
+    localStorage.setItem(
+      'student-storage',
+      JSON.stringify({ state: { token: 'student-token', tokenExpiresAt: 9_000, session: { id: 'session-1' } } }),
+    );
+
+    migrateLegacyAuth();
+
+    expect(useAuthStore.getState().credentials).toMatchObject({
+      mode: 'student',
+      token: 'student-token',
+      expiresAt: 9_000,
+      sessionId: 'session-1',
+    });
+  });
+
+  it('imports them when the store hydrates without credentials of its own', async () => {
+    useAuthStore.getState().signOut();
+    localStorage.clear();
+    localStorage.setItem('group_access_token', 'kiosk-token');
+    localStorage.setItem('groupInfo', JSON.stringify({ id: 'group-7', name: 'Group 7' }));
+    localStorage.setItem('sessionInfo', JSON.stringify({ id: 'session-3', title: 'Maths', status: 'active' }));
+
+    await useAuthStore.persist.rehydrate();
+
+    expect(useAuthStore.getState().credentials).toMatchObject({ mode: 'kiosk', token: 'kiosk-token' });
+  });
+
+  it('leaves credentials already in the store alone', () => {
+    useAuthStore.getState().signIn({
+      mode: 'student',
+      token: 'current-token',
+      expiresAt: null,
+      sessionId: 'session-1',
+      groupId: null,
+    });
+    localStorage.setItem('group_access_token', 'kiosk-token');
+    localStorage.setItem('groupInfo', JSON.stringify({ id: 'group-7', name: 'Group 7' }));
+    localStorage.setItem('sessionInfo', JSON.stringify({ id: 'session-3', title: 'Maths', status: 'active' }));
+
+    migrateLegacyAuth();
+
+    expect(useAuthStore.getState().credentials).toMatchObject({ token: 'current-token' });
+  });
+});
@@ -5,9 +5,13 @@ import { useRouter } from 'next/navigation'
 import { Users, Loader2 } from 'lucide-react'
 import { joinSession } from '@/features/session-joining/api/join-session'
 import { useStudentStore } from '@/stores/student-store'
+import { createLogger } from '@/lib/logger'
+import { parseSessionStatus } from '@/features/session-lifecycle/lib/session-lifecycle'
 import { AgeVerificationModal } from '@/components/compliance/age-verification-modal'
 import { ParentalConsentRequired } from '@/components/compliance/parental-consent-required'
 
+const log = createLogger('session')
+
 interface JoinPageProps {
   params: {
     sessionId: string
@@ -17,13 +21,13 @@ interface JoinPageProps {
 export default function JoinPage({ params }: JoinPageProps) {
   const router = useRouter()
   const [isJoining, setIsJoining] = useState(false)
+  const { student, setAuth, setSession, setGroup } = useStudentStore()
   const [error, setError] = useState('')
-  const [studentName, setStudentName] = useState('')
+  // Prefilled when coming back to sign in again after the token expired
+  const [studentName, setStudentName] = useState(student?.name ?? '')
   const [gradeLevel, setGradeLevel] = useState('')
   const [showAgeVerification, setShowAgeVerification] = useState(false)
   const [showParentalConsent, setShowParentalConsent] = useState(false)
-  
-  const { setAuth, setSession, setGroup } = useStudentStore()
 
   const handleJoinSession = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -67,16 +71,22 @@ export default function JoinPage({ params }: JoinPageProps) {
         id: response.student.id,
         name: response.student.displayName,
         sessionId: response.session.id,
+      }, response.expiresAt)
+      // Servers that predate the lifecycle don't report status; they only admit students to live sessions
+      setSession({
+        id: response.session.id,
+        title: response.session.title ?? '',
+        code: params.sessionId,
+        status: parseSessionStatus(response.session.status, 'active'),
       })
-      setSession({ id: response.session.id, title: '', status: 'active' })
       if (response.group) {
         setGroup({ id: response.group.id, name: response.group.name, members: [] })
       }
 
-      // Navigate to the session page
-      router.push(`/session/${response.session.id}`)
+      // Wait in the lobby until the teacher starts and a group is assigned
+      router.push(`/session/${response.session.id}/lobby`)
     } catch (err: any) {
-      console.error('Join session error:', err)
+      log.error('Join session failed', err)
       if (err.response?.data?.message) {
         setError(err.response.data.message)
       } else if (err.response?.status === 404) {
@@ -1,6 +1,10 @@
 import type { Metadata, Viewport } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
+import { AuthExpiryHandler } from '@/components/auth/auth-expiry-handler'
+import { KioskTokenRefresher } from '@/components/auth/kiosk-token-refresher'
+import { SessionSocket } from '@/components/providers/session-socket'
+import { SocketProvider } from '@/components/providers/socket-provider'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -49,9 +53,14 @@ export default function RootLayout({
         <link rel="apple-touch-icon" href="/icons/icon-192x192.svg" />
       </head>
       <body className={inter.className}>
-        <div className="safe-area-inset min-h-screen bg-background">
-          {children}
-        </div>
+        <SocketProvider>
+          <SessionSocket />
+          <AuthExpiryHandler />
+          <KioskTokenRefresher />
+          <div className="safe-area-inset min-h-screen bg-background">
+            {children}
+          </div>
+        </SocketProvider>
       </body>
     </html>
   )
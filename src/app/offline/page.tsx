@@ -1,10 +1,43 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { WifiOff, Upload, CheckCircle, AlertCircle } from 'lucide-react'
+import { WifiOff, Upload, CheckCircle, AlertCircle, RotateCw } from 'lucide-react'
+import { useUploadManager, type UploadItem } from '@/features/offline-sync/hooks/use-upload-manager'
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function UploadStatusLabel({ item, onRetry }: { item: UploadItem; onRetry: () => void }) {
+  switch (item.status) {
+    case 'uploading':
+      return <div className="text-sm text-green-600">{Math.round(item.progress * 100)}%</div>
+    case 'failed':
+      return (
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+          title={item.error ?? undefined}
+        >
+          <RotateCw className="h-4 w-4" />
+          Retry
+        </button>
+      )
+    default:
+      return null
+  }
+}
 
 export default function OfflinePage() {
-  const [pendingUploads, setPendingUploads] = useState<any[]>([])
+  const { items: pendingUploads, isLoading, isUploading, uploadAll, retry } = useUploadManager()
   const [isOnline, setIsOnline] = useState(false)
 
   useEffect(() => {
@@ -14,7 +47,7 @@ export default function OfflinePage() {
     const handleOnline = () => {
       setIsOnline(true)
       // Start syncing
-      syncPendingUploads()
+      void uploadAll()
     }
     
     const handleOffline = () => setIsOnline(false)
@@ -22,28 +55,11 @@ export default function OfflinePage() {
     window.addEventListener('online', handleOnline)
     window.addEventListener('offline', handleOffline)
 
-    // Load pending uploads from local storage
-    const stored = localStorage.getItem('pendingUploads')
-    if (stored) {
-      setPendingUploads(JSON.parse(stored))
-    }
-
     return () => {
       window.removeEventListener('online', handleOnline)
       window.removeEventListener('offline', handleOffline)
     }
-  }, [])
-
-  const syncPendingUploads = async () => {
-    // In a real app, this would upload pending recordings
-    console.log('Syncing pending uploads...')
-    
-    // Simulate upload
-    setTimeout(() => {
-      setPendingUploads([])
-      localStorage.removeItem('pendingUploads')
-    }, 3000)
-  }
+  }, [uploadAll])
 
   return (
     <div className="flex min-h-screen flex-col p-8">
@@ -67,7 +83,7 @@ export default function OfflinePage() {
         <div className="rounded-lg bg-white p-6 shadow-sm">
           <h1 className="text-2xl font-bold text-gray-900">Offline Storage</h1>
           
-          {pendingUploads.length === 0 ? (
+          {isLoading ? null : pendingUploads.length === 0 ? (
             <div className="mt-6 text-center">
               <Upload className="mx-auto h-12 w-12 text-gray-400" />
               <p className="mt-2 text-gray-600">No pending uploads</p>
@@ -83,22 +99,30 @@ export default function OfflinePage() {
               
               {pendingUploads.map((upload, idx) => (
                 <div
-                  key={idx}
-                  className="flex items-center justify-between rounded-lg border border-gray-200 p-3"
+                  key={upload.id}
+                  className="rounded-lg border border-gray-200 p-3"
                 >
-                  <div className="flex items-center gap-3">
-                    <Upload className="h-5 w-5 text-gray-400" />
-                    <div>
-                      <p className="text-sm font-medium text-gray-900">
-                        Recording {idx + 1}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {upload.duration || '2:34'} • {upload.size || '1.2 MB'}
-                      </p>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Upload className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          Recording {idx + 1}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatDuration(upload.durationMs)} • {formatSize(upload.sizeBytes)}
+                        </p>
+                      </div>
                     </div>
+                    <UploadStatusLabel item={upload} onRetry={() => void retry(upload)} />
                   </div>
-                  {isOnline && (
-                    <div className="text-sm text-green-600">Syncing...</div>
+                  {upload.status === 'uploading' && (
+                    <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full bg-gray-100">
+                      <div
+                        className="h-full bg-green-500 transition-all"
+                        style={{ width: `${Math.round(upload.progress * 100)}%` }}
+                      />
+                    </div>
                   )}
                 </div>
               ))}
@@ -121,10 +145,11 @@ export default function OfflinePage() {
         <div className="space-y-3">
           {isOnline && pendingUploads.length > 0 && (
             <button
-              onClick={syncPendingUploads}
-              className="w-full rounded-lg bg-blue-600 px-4 py-3 text-white font-medium hover:bg-blue-700"
+              onClick={() => void uploadAll()}
+              disabled={isUploading}
+              className="w-full rounded-lg bg-blue-600 px-4 py-3 text-white font-medium hover:bg-blue-700 disabled:opacity-50"
             >
-              Sync Now
+              {isUploading ? 'Syncing...' : 'Sync Now'}
             </button>
           )}
           
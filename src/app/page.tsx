@@ -1,14 +1,22 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Mic } from 'lucide-react'
+import { SIGNED_OUT_MESSAGES, isAuthExpiredReason } from '@/lib/auth-events'
 
 export default function HomePage() {
   const [joinCode, setJoinCode] = useState('')
   const [error, setError] = useState('')
+  const [signedOutMessage, setSignedOutMessage] = useState<string | null>(null)
   const router = useRouter()
 
+  // Set when the app signed the student out, e.g. after a 401
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get('reason')
+    if (isAuthExpiredReason(reason)) setSignedOutMessage(SIGNED_OUT_MESSAGES[reason])
+  }, [])
+
   const handleJoinSession = (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -42,6 +50,12 @@ export default function HomePage() {
           <p className="mt-2 text-lg text-gray-600">Join your classroom session</p>
         </div>
 
+        {signedOutMessage && (
+          <p role="status" className="rounded-lg bg-yellow-50 px-4 py-3 text-center text-sm text-yellow-800">
+            {signedOutMessage}
+          </p>
+        )}
+
         {/* Join Form */}
         <form onSubmit={handleJoinSession} className="space-y-6">
           <div>
@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Users, Loader2, LogOut } from 'lucide-react'
+import { useStudentStore } from '@/stores/student-store'
+import { useAuthStore } from '@/stores/auth-store'
+import { useWebSocket } from '@/hooks/use-websocket'
+import { isSessionLive } from '@/features/session-lifecycle/lib/session-lifecycle'
+import { useStudentTokenRefresh } from '@/features/session-joining/hooks/use-student-token-refresh'
+
+interface LobbyPageProps {
+  params: { sessionId: string }
+}
+
+export default function LobbyPage({ params }: LobbyPageProps) {
+  const router = useRouter()
+  const { student, session, group, logout, endSession } = useStudentStore()
+  const isSignedIn = useAuthStore((state) => state.credentials !== null)
+
+  // The layout's connection delivers `group:joined` and `session:status_changed` into the store
+  const { isConnected } = useWebSocket()
+  const { status: tokenStatus } = useStudentTokenRefresh()
+
+  // Not joined at all: back to the code entry screen
+  useEffect(() => {
+    if (!isSignedIn || !student || !session) {
+      router.push('/')
+    }
+  }, [isSignedIn, student, session, router])
+
+  // Move on as soon as the teacher starts the session and a group is assigned
+  useEffect(() => {
+    if (!session) return
+    if (session.status === 'ended') {
+      endSession({
+        sessionId: session.id,
+        title: session.title,
+        groupName: group?.name ?? null,
+        recordedSeconds: 0,
+        unsyncedChunks: 0,
+        endedAt: new Date().toISOString(),
+      })
+      router.replace(`/session/${session.id}/summary`)
+    } else if (group && isSessionLive(session.status)) {
+      router.replace(`/session/${session.id}`)
+    }
+  }, [session, group, endSession, router])
+
+  const handleLeave = () => {
+    logout()
+    router.push('/')
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-8">
+      <div className="w-full max-w-md space-y-6 text-center">
+        <div className="rounded-lg bg-blue-50 p-6">
+          <Users className="mx-auto mb-4 h-12 w-12 text-blue-600" />
+          <h1 className="text-2xl font-bold text-gray-900">{session?.title || 'Classroom Session'}</h1>
+          <p className="mt-2 text-gray-600">
+            Session Code: <span className="font-mono font-bold">{params.sessionId}</span>
+          </p>
+        </div>
+
+        <div className="rounded-lg bg-white p-6 shadow-sm">
+          {group ? (
+            <p className="text-gray-700">
+              Your group: <span className="font-semibold">{group.name}</span>
+            </p>
+          ) : (
+            <p className="text-gray-600">Waiting for group assignment...</p>
+          )}
+          <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+            <span>
+              {session && isSessionLive(session.status)
+                ? 'Your teacher has started. Joining as soon as your group is ready...'
+                : 'Waiting for your teacher to start the session...'}
+            </span>
+          </div>
+        </div>
+
+        {tokenStatus === 'expired' && (
+          <button
+            onClick={() => router.push(`/join/${session?.code ?? params.sessionId}`)}
+            className="w-full rounded-lg bg-yellow-50 px-4 py-3 text-sm font-medium text-yellow-800 hover:bg-yellow-100"
+          >
+            Your sign-in has expired. Tap to sign in again.
+          </button>
+        )}
+
+        <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+          <div className={`h-2 w-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+          <span>{isConnected ? 'Connected' : 'Connecting...'}</span>
+        </div>
+
+        <button
+          onClick={handleLeave}
+          className="mx-auto flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+        >
+          <LogOut className="h-4 w-4" />
+          <span>Leave</span>
+        </button>
+      </div>
+    </div>
+  )
+}
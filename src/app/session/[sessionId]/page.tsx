@@ -1,12 +1,51 @@
 'use client'
 
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import { Mic, MicOff, Users, Wifi, WifiOff, Loader2, LogOut } from 'lucide-react'
+import { Mic, MicOff, Users, Wifi, WifiOff, Loader2, LogOut, Pause, Play } from 'lucide-react'
 import { useStudentStore } from '@/stores/student-store' // This store may need simplification as well
-import { useAudioRecorder } from '@/features/audio-recording/hooks/use-audio-recorder'
+import { useAuthStore } from '@/stores/auth-store'
+import {
+  useAudioRecorder,
+  type AudioChunkInfo,
+  type AudioFormat,
+  type CaptureMode,
+  type RecorderStatus,
+} from '@/features/audio-recording/hooks/use-audio-recorder'
+import { PrivacyGate } from '@/features/audio-recording/lib/privacy-gate'
+import { useAudioChunkBuffer } from '@/features/offline-sync/hooks/use-audio-chunk-buffer'
+import { useStudentTokenRefresh } from '@/features/session-joining/hooks/use-student-token-refresh'
+import { MicrophonePicker } from '@/components/session/microphone-picker'
+import { PrivacyPauseButton } from '@/components/session/privacy-pause-button'
+import { ConnectionQualityIndicator } from '@/components/session/connection-quality-indicator'
+import { DiagnosticsExportButton } from '@/components/support/diagnostics-export-button'
+import { useSocketService } from '@/components/providers/socket-provider'
 import { useWebSocket } from '@/hooks/use-websocket'
-import { wsService } from '@/lib/websocket'
+import { useAudioTransport } from '@/hooks/use-audio-transport'
+import { registerSignOutTask } from '@/lib/auth-events'
+
+const AUDIO_CHUNK_MS = 2000 // 2-second chunks for lower latency
+const REMOTE_NOTICE_MS = 6000
+// MediaRecorder hands over its final chunk shortly after stop()
+const FINAL_CHUNK_GRACE_MS = 500
+const END_FLUSH_TIMEOUT_MS = 5000
+const CAPTURE_MODE: CaptureMode =
+  process.env.NEXT_PUBLIC_AUDIO_CAPTURE_MODE === 'pcm16' ? 'pcm16' : 'media-recorder'
+
+type TeacherCommand = 'start' | 'pause' | 'resume' | 'stop'
+
+const TEACHER_NOTICES: Record<TeacherCommand, string> = {
+  start: 'Your teacher started recording for your group.',
+  pause: 'Your teacher paused the session. Recording is on hold.',
+  resume: 'The session resumed. Recording continues.',
+  stop: 'Your teacher stopped recording.',
+}
+
+function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
 
 interface SessionPageProps {
   params: { sessionId: string }
@@ -15,42 +54,270 @@ interface SessionPageProps {
 export default function SessionPage({ params }: SessionPageProps) {
   const router = useRouter()
   const [isOnline, setIsOnline] = useState(true)
-  const { student, session, group, logout } = useStudentStore()
+  const [remoteNotice, setRemoteNotice] = useState<string | null>(null)
+  const [isEnding, setIsEnding] = useState(false)
+  const { student, session, group, isMuted, setMuted, logout, endSession } = useStudentStore()
+  const isSignedIn = useAuthStore((state) => state.credentials !== null);
+  const socket = useSocketService();
+
+  // Teacher commands arrive before the recorder exists in this render, so they go through a ref
+  const teacherCommandRef = useRef<(command: TeacherCommand) => void>();
+
+  // The layout holds the connection; this page reacts to teacher commands and presence
+  const { isConnected, connectionStats, updateMuteStatus, startSpeaking, stopSpeaking } = useWebSocket({
+    onGroupRecording: (isRecording) => teacherCommandRef.current?.(isRecording ? 'start' : 'stop'),
+    onSessionStatusChanged: (status) => {
+      if (status === 'paused') teacherCommandRef.current?.('pause');
+      else if (status === 'active') teacherCommandRef.current?.('resume');
+    },
+  });
+
+  const { status: tokenStatus } = useStudentTokenRefresh();
+
+  // Falls back to HTTP uploads when the socket can't connect or stops acking
+  const { transport: audioTransport, kind: transportKind, isReady: isTransportReady } = useAudioTransport(isConnected);
 
-  // WebSocket connection for the session (student hook manages session join from store)
-  const { isConnected } = useWebSocket();
+  // Every chunk is persisted first and streamed whenever the transport is up
+  const { pendingCount, capture: bufferAudioChunk, flush: flushAudioBuffer } = useAudioChunkBuffer({
+    sessionId: session?.id,
+    groupId: group?.id,
+    isConnected: isTransportReady,
+    transport: audioTransport,
+  });
+
+  const privacyGateRef = useRef(new PrivacyGate());
+  const [headerLost, setHeaderLost] = useState(false);
+  const isMutedRef = useRef(isMuted);
+  isMutedRef.current = isMuted;
+
+  const handleAudioChunk = useCallback((blob: Blob, info: AudioChunkInfo) => {
+    // Private audio never leaves the device, not even into the offline buffer
+    if (!privacyGateRef.current.admit(info)) {
+      if (privacyGateRef.current.needsHeader()) setHeaderLost(true);
+      return;
+    }
+    void bufferAudioChunk(blob, info.mimeType, AUDIO_CHUNK_MS);
+  }, [bufferAudioChunk]);
+
+  const isStreamOpenRef = useRef(false);
 
-  // Refactored audio handler to stream via WebSocket
-  const handleAudioChunk = useCallback((blob: Blob) => {
-    if (!isConnected || !group) return;
-    // Send raw audio blob over the websocket for the group
-    wsService.sendGroupAudio(group.id, blob, 'audio/webm;codecs=opus');
-  }, [isConnected, group]);
+  const handleStreamStart = useCallback((format: AudioFormat) => {
+    if (!group) return;
+    // Start stream lifecycle with the format the browser actually negotiated
+    audioTransport.startStream(group.id, { mimeType: format.mimeType, sampleRate: format.sampleRate });
+    isStreamOpenRef.current = true;
+  }, [group, audioTransport]);
+
+  // End the server stream whenever capture stops, whether by the user or a failure;
+  // pauses are forwarded so the server can timestamp the gap, including on the new
+  // stream a restart opens while paused
+  const handleRecorderStatusChange = useCallback((status: RecorderStatus, previous: RecorderStatus) => {
+    if (!group || !isStreamOpenRef.current) return;
+    if (status === 'stopping' || status === 'error') {
+      audioTransport.endStream(group.id);
+      isStreamOpenRef.current = false;
+    } else if (status === 'paused') {
+      audioTransport.pauseStream(group.id);
+    } else if (status === 'recording' && previous === 'paused') {
+      audioTransport.resumeStream(group.id);
+    }
+  }, [group, audioTransport]);
+
+  const handleCaptureIssue = useCallback((message: string) => {
+    // The socket queues it while offline; HTTP posts it straight away
+    if (group) audioTransport.reportError(group.id, message);
+  }, [group, audioTransport]);
 
   const {
+    status: recorderStatus,
     isRecording,
+    isPaused,
+    isSpeaking,
+    duration,
+    recoveryStatus,
     error: audioError,
+    devices,
+    deviceId,
+    selectDevice,
+    requestPermission,
     startRecording,
     stopRecording,
+    restartRecording,
+    pauseRecording,
+    resumeRecording,
   } = useAudioRecorder({
     onDataAvailable: handleAudioChunk,
-    chunkSize: 2000, // 2-second chunks for lower latency
+    onStreamStart: handleStreamStart,
+    onCaptureIssue: handleCaptureIssue,
+    onStatusChange: handleRecorderStatusChange,
+    chunkSize: AUDIO_CHUNK_MS,
+    captureMode: CAPTURE_MODE,
+    // Thin out long silences to one chunk every ~10s instead of streaming them all
+    vad: { enabled: true, silentChunkInterval: 5 },
   });
 
+  // Ask for the mic up front; this also unlocks device names for the picker
+  useEffect(() => {
+    void requestPermission();
+  }, [requestPermission]);
+
+  // Join the group room once the group is known; the service rejoins it after a reconnect
+  const groupId = group?.id
+  const sessionId = session?.id
+  useEffect(() => {
+    if (groupId && sessionId) socket.joinGroupSession(groupId, sessionId)
+  }, [groupId, sessionId, socket])
+
+  // Mirror mic state and voice activity to the teacher dashboard
+  useEffect(() => {
+    if (!isConnected) return;
+    updateMuteStatus(!isRecording || isPaused || isMuted);
+  }, [isConnected, isRecording, isPaused, isMuted, updateMuteStatus]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    if (isRecording && !isPaused && isSpeaking && !isMuted) {
+      startSpeaking();
+    } else {
+      stopSpeaking();
+    }
+  }, [isConnected, isRecording, isPaused, isSpeaking, isMuted, startSpeaking, stopSpeaking]);
+
+  // A pause that swallowed the stream header leaves the rest undecodable, so capture
+  // restarts into a new stream as soon as it is live and unmuted again
+  useEffect(() => {
+    if (!headerLost || recorderStatus !== 'recording' || isMuted) return;
+    setHeaderLost(false);
+    if (privacyGateRef.current.needsHeader()) void restartRecording();
+  }, [headerLost, recorderStatus, isMuted, restartRecording]);
+
+  const startPrivacyPause = () => {
+    if (!group || !isRecording) return;
+    privacyGateRef.current.start();
+    setMuted(true);
+    audioTransport.startPrivacyPause(group.id);
+  };
+
+  const endPrivacyPause = () => {
+    if (!isMutedRef.current) return;
+    setMuted(false);
+    privacyGateRef.current.end();
+    if (group) audioTransport.endPrivacyPause(group.id);
+  };
+
   const toggleRecording = () => {
     if (session?.status !== 'active') return;
     if (!group) return;
     if (isRecording) {
-      // End stream lifecycle and stop recorder
-      wsService.endAudioStream(group.id);
+      endPrivacyPause();
       stopRecording();
     } else {
-      // Start stream lifecycle before recording
-      wsService.startAudioStream(group.id);
       startRecording();
     }
   };
 
+  // Only undo pauses the teacher caused; a student's own pause stays in place
+  const pausedByTeacherRef = useRef(false);
+
+  teacherCommandRef.current = (command: TeacherCommand) => {
+    switch (command) {
+      case 'start':
+        if (recorderStatus === 'paused') {
+          resumeRecording();
+        } else if (recorderStatus === 'idle' || recorderStatus === 'error') {
+          void startRecording();
+        } else {
+          return;
+        }
+        break;
+      case 'pause':
+        if (recorderStatus !== 'recording') return;
+        endPrivacyPause();
+        pauseRecording();
+        pausedByTeacherRef.current = true;
+        break;
+      case 'resume':
+        if (recorderStatus !== 'paused' || !pausedByTeacherRef.current) return;
+        resumeRecording();
+        break;
+      case 'stop':
+        if (!isRecording) return;
+        endPrivacyPause();
+        stopRecording();
+        break;
+    }
+    pausedByTeacherRef.current = command === 'pause';
+    setRemoteNotice(TEACHER_NOTICES[command]);
+  };
+
+  useEffect(() => {
+    if (!remoteNotice) return;
+    const timer = window.setTimeout(() => setRemoteNotice(null), REMOTE_NOTICE_MS);
+    return () => window.clearTimeout(timer);
+  }, [remoteNotice]);
+
+  const togglePause = () => {
+    pausedByTeacherRef.current = false;
+    if (isPaused) {
+      resumeRecording();
+    } else {
+      endPrivacyPause();
+      pauseRecording();
+    }
+  };
+
+  // Once the teacher ends the session: stop capture, push out what's buffered, leave the
+  // group and drop credentials, then hand over to the summary screen
+  const finishSessionRef = useRef<() => Promise<void>>();
+  finishSessionRef.current = async () => {
+    if (!session) return;
+    const endedGroup = group;
+    const recordedSeconds = duration;
+
+    endPrivacyPause();
+    if (isRecording) stopRecording();
+    await new Promise((resolve) => setTimeout(resolve, FINAL_CHUNK_GRACE_MS));
+    const unsyncedChunks = await flushAudioBuffer(END_FLUSH_TIMEOUT_MS);
+
+    if (endedGroup) socket.leaveGroupSession(endedGroup.id);
+    endSession({
+      sessionId: session.id,
+      title: session.title,
+      groupName: endedGroup?.name ?? null,
+      recordedSeconds,
+      unsyncedChunks,
+      endedAt: new Date().toISOString(),
+    });
+    router.replace(`/session/${session.id}/summary`);
+  };
+
+  useEffect(() => {
+    if (session?.status !== 'ended' || isEnding) return;
+    setIsEnding(true);
+    void finishSessionRef.current?.();
+  }, [session?.status, isEnding]);
+
+  // Chunks are already in IndexedDB, so stopping here loses nothing; the buffer
+  // drains them once the student has signed back in to the same session
+  const saveRecordingRef = useRef<() => Promise<void>>();
+  saveRecordingRef.current = async () => {
+    endPrivacyPause();
+    if (isRecording) stopRecording();
+    await new Promise((resolve) => setTimeout(resolve, FINAL_CHUNK_GRACE_MS));
+  };
+
+  // Runs before the app clears credentials after an unrecoverable 401: whatever can
+  // still be delivered goes out first, the rest waits in IndexedDB for the next sign-in
+  useEffect(() => registerSignOutTask(async () => {
+    await saveRecordingRef.current?.();
+    await flushAudioBuffer(END_FLUSH_TIMEOUT_MS);
+  }), [flushAudioBuffer]);
+
+  const handleSignInAgain = async () => {
+    await saveRecordingRef.current?.();
+    router.push(`/join/${session?.code ?? params.sessionId}`);
+  };
+
   const handleLeaveSession = () => {
     stopRecording();
     logout();
@@ -71,10 +338,22 @@ export default function SessionPage({ params }: SessionPageProps) {
   
   // Redirect if not properly joined
   useEffect(() => {
-    if (!student || !session || !group) {
+    if (isEnding) return;
+    if (!isSignedIn || !student || !session) {
       router.push('/');
+    } else if (!group || session.status === 'created' || session.status === 'waiting') {
+      router.replace(`/session/${session.id}/lobby`);
     }
-  }, [student, session, group, router]);
+  }, [isSignedIn, student, session, group, router, isEnding]);
+
+  if (isEnding) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <p className="ml-2">Session ended. Saving your group&apos;s audio...</p>
+      </div>
+    )
+  }
 
   if (!group) {
     return (
@@ -99,8 +378,7 @@ export default function SessionPage({ params }: SessionPageProps) {
           <div className="flex items-center gap-4">
              <div className="flex items-center gap-2 text-sm">
                 {isOnline ? <Wifi className="h-5 w-5 text-green-600" /> : <WifiOff className="h-5 w-5 text-yellow-600" />}
-                <div className={`h-2 w-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
-                <span>{isConnected ? 'Connected' : 'Disconnected'}</span>
+                <ConnectionQualityIndicator isConnected={isConnected} stats={connectionStats} />
             </div>
             <button
               onClick={handleLeaveSession}
@@ -118,11 +396,36 @@ export default function SessionPage({ params }: SessionPageProps) {
         <Users className="h-16 w-16 text-gray-400 mb-4" />
         <h2 className="text-2xl font-bold text-gray-800">Group Audio Capture</h2>
         <p className="text-gray-600 mb-8">This device is capturing audio for your group.</p>
+
+        {tokenStatus === 'expired' && (
+          <div
+            role="alert"
+            className="mb-6 flex flex-col items-center gap-2 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800"
+          >
+            <p className="font-medium">Your sign-in has expired. Audio is still being saved on this device.</p>
+            <button
+              onClick={() => void handleSignInAgain()}
+              className="rounded-lg bg-yellow-600 px-4 py-2 font-semibold text-white hover:bg-yellow-700"
+            >
+              Sign in again
+            </button>
+          </div>
+        )}
+
+        {remoteNotice && (
+          <div
+            role="status"
+            aria-live="polite"
+            className="mb-6 rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm font-medium text-blue-800"
+          >
+            {remoteNotice}
+          </div>
+        )}
         
         {/* Recording Button */}
         <button
           onClick={toggleRecording}
-          disabled={session?.status !== 'active' || !isConnected}
+          disabled={session?.status !== 'active' || !isTransportReady}
           className={`touch-target rounded-full p-8 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
             isRecording
               ? 'bg-red-600 hover:bg-red-700 recording-pulse'
@@ -136,23 +439,90 @@ export default function SessionPage({ params }: SessionPageProps) {
           )}
         </button>
 
+        <div className="mt-6">
+          <MicrophonePicker
+            devices={devices}
+            selectedDeviceId={deviceId}
+            onSelect={(id) => void selectDevice(id)}
+          />
+        </div>
+
+        {isRecording && (
+          <div className="mt-6 flex flex-col items-center gap-4">
+            <p className="font-mono text-lg text-gray-700" aria-label="Recording duration">
+              {formatDuration(duration)}
+            </p>
+            <button
+              onClick={togglePause}
+              disabled={session?.status !== 'active'}
+              className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              <span>{isPaused ? 'Resume' : 'Pause'}</span>
+            </button>
+            {!isPaused && (
+              <PrivacyPauseButton
+                isActive={isMuted}
+                onStart={startPrivacyPause}
+                onEnd={endPrivacyPause}
+              />
+            )}
+          </div>
+        )}
+
         {/* Status Text */}
         <div className="mt-8 h-10">
           {audioError && <p className="text-red-600 font-medium">{audioError}</p>}
-          {!audioError && (
+          {!audioError && recoveryStatus === 'recovering' && (
+            <p className="text-yellow-600 font-medium">Microphone interrupted. Reconnecting...</p>
+          )}
+          {!audioError && recoveryStatus === 'recovered' && (
+            <p className="text-green-600 font-medium">Microphone reconnected. Recording continues.</p>
+          )}
+          {!audioError && recoveryStatus !== 'recovering' && recoveryStatus !== 'recovered' && (
              <>
-              {session?.status === 'active' && isRecording && (
+              {session?.status === 'active' && isPaused && (
+                <p className="text-gray-700 font-medium">Recording paused. Tap resume to continue.</p>
+              )}
+              {session?.status === 'active' && isRecording && !isPaused && isMuted && (
+                <p className="text-purple-700 font-medium">Privacy pause — nothing is being recorded.</p>
+              )}
+              {session?.status === 'active' && isRecording && !isPaused && !isMuted && (
                 <p className="text-green-600 font-medium">Recording audio for the group...</p>
               )}
               {session?.status === 'active' && !isRecording && (
                 <p className="text-gray-600">Tap the microphone to start recording.</p>
               )}
-              {session?.status !== 'active' && (
+              {session?.status === 'paused' && (
                 <p className="text-yellow-600">Recording paused. Waiting for teacher to resume session.</p>
               )}
              </>
           )}
+          {transportKind === 'http' && (
+            <p className="mt-1 text-sm text-gray-600">
+              Live connection is blocked on this network; audio is being sent over a backup connection.
+            </p>
+          )}
+          {pendingCount > 0 && (
+            <p className="mt-1 text-sm text-yellow-600">
+              {pendingCount} audio chunk{pendingCount > 1 ? 's' : ''} saved on this device, waiting to sync
+            </p>
+          )}
         </div>
+
+        <DiagnosticsExportButton
+          className="mt-8"
+          getContext={() => ({
+            sessionId: session?.id,
+            groupId: group?.id,
+            sessionStatus: session?.status,
+            recorderStatus,
+            transport: transportKind,
+            isConnected,
+            connectionStats,
+            pendingChunks: pendingCount,
+          })}
+        />
       </main>
     </div>
   )
@@ -0,0 +1,73 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { CheckCircle, HardDrive } from 'lucide-react'
+import { useStudentStore } from '@/stores/student-store'
+import { DiagnosticsExportButton } from '@/components/support/diagnostics-export-button'
+
+interface SessionSummaryPageProps {
+  params: { sessionId: string }
+}
+
+function formatDuration(totalSeconds: number) {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+export default function SessionSummaryPage({ params }: SessionSummaryPageProps) {
+  const router = useRouter()
+  const { sessionSummary } = useStudentStore()
+  // A summary from an earlier session is not shown for this one
+  const summary = sessionSummary?.sessionId === params.sessionId ? sessionSummary : null
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-8">
+      <div className="w-full max-w-md space-y-6 text-center">
+        <CheckCircle className="mx-auto h-16 w-16 text-green-600" />
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Session Ended</h1>
+          {summary?.title && <p className="mt-2 text-gray-600">{summary.title}</p>}
+        </div>
+
+        {summary && (
+          <dl className="rounded-lg bg-white p-6 text-left shadow-sm">
+            {summary.groupName && (
+              <div className="flex justify-between py-1">
+                <dt className="text-gray-600">Group</dt>
+                <dd className="font-medium text-gray-900">{summary.groupName}</dd>
+              </div>
+            )}
+            <div className="flex justify-between py-1">
+              <dt className="text-gray-600">Recorded on this device</dt>
+              <dd className="font-mono font-medium text-gray-900">{formatDuration(summary.recordedSeconds)}</dd>
+            </div>
+            <div className="flex justify-between py-1">
+              <dt className="text-gray-600">Ended</dt>
+              <dd className="font-medium text-gray-900">{new Date(summary.endedAt).toLocaleTimeString()}</dd>
+            </div>
+          </dl>
+        )}
+
+        {/* Signed out by now, so an upload from here would be refused; the chunks
+            stay in IndexedDB for Offline Storage after the next sign-in */}
+        {summary && summary.unsyncedChunks > 0 && (
+          <p className="flex items-center justify-center gap-2 rounded-lg bg-yellow-50 px-4 py-3 text-sm font-medium text-yellow-800">
+            <HardDrive className="h-4 w-4 shrink-0" />
+            {summary.unsyncedChunks} audio chunk{summary.unsyncedChunks > 1 ? 's' : ''} did not reach the server and
+            {summary.unsyncedChunks > 1 ? ' are' : ' is'} kept on this device. Upload from Offline Storage after signing in again.
+          </p>
+        )}
+
+        <button
+          onClick={() => router.push('/')}
+          className="touch-target w-full rounded-lg bg-blue-600 px-4 py-3 text-lg font-semibold text-white shadow-sm hover:bg-blue-700"
+        >
+          Done
+        </button>
+
+        <DiagnosticsExportButton getContext={() => ({ sessionId: params.sessionId, summary })} />
+      </div>
+    </div>
+  )
+}
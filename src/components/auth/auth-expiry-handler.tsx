@@ -0,0 +1,72 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { onAuthExpired, runSignOutTasks, showExpiryPrompts } from '@/lib/auth-events'
+import { createLogger } from '@/lib/logger'
+import { resolveTokenExpiry } from '@/lib/token-expiry'
+import type { GroupKioskWebSocketService } from '@/lib/websocket'
+import { useAuthStore } from '@/stores/auth-store'
+import { useStudentStore } from '@/stores/student-store'
+import { kioskApi } from '@/features/kiosk/api/kiosk'
+import { refreshStudentToken } from '@/features/session-joining/api/refresh-token'
+import { useSocketService } from '@/components/providers/socket-provider'
+
+const log = createLogger('auth')
+
+async function tryRefresh(socket: GroupKioskWebSocketService): Promise<boolean> {
+  const { credentials, setToken } = useAuthStore.getState()
+  try {
+    if (credentials?.mode === 'student') {
+      const response = await refreshStudentToken(credentials.sessionId, credentials.token)
+      setToken(response.token, resolveTokenExpiry(response.token, response.expiresAt))
+      socket.reauthenticate(response.token)
+      return true
+    }
+    if (credentials?.mode === 'kiosk' && credentials.groupId) {
+      const { group_access_token: token, expiresAt } = await kioskApi.refreshToken(
+        credentials.groupId,
+        credentials.token,
+      )
+      setToken(token, resolveTokenExpiry(token, expiresAt))
+      socket.reauthenticate(token)
+      return true
+    }
+  } catch (err) {
+    log.warn('Refresh after 401 failed', err)
+  }
+  return false
+}
+
+/**
+ * Handles `emitAuthExpired` for the whole app: refresh if possible, otherwise
+ * let a student's page ask them to sign in again. Only when no page can is the
+ * recording saved, kiosk and student credentials cleared and the user sent home
+ * with the reason.
+ */
+export function AuthExpiryHandler() {
+  const router = useRouter()
+  const socket = useSocketService()
+  // Requests in flight tend to fail together; handle the first and ignore the rest
+  const isHandlingRef = useRef(false)
+
+  useEffect(() => {
+    return onAuthExpired(async ({ reason }) => {
+      if (isHandlingRef.current) return
+      isHandlingRef.current = true
+      try {
+        if (await tryRefresh(socket)) return
+        // Signing out here would cut off audio that is still uploading
+        if (useAuthStore.getState().credentials?.mode === 'student' && showExpiryPrompts()) return
+        await runSignOutTasks()
+        // Signs out of the auth store too, whichever mode this device is in
+        useStudentStore.getState().logout()
+        router.replace(`/?reason=${reason}`)
+      } finally {
+        isHandlingRef.current = false
+      }
+    })
+  }, [router, socket])
+
+  return null
+}
@@ -0,0 +1,9 @@
+'use client'
+
+import { useKioskTokenRefresh } from '@/features/kiosk/hooks/use-kiosk-token-refresh'
+
+/** Mounted once in the layout so a signed-in kiosk keeps its token on every page. */
+export function KioskTokenRefresher() {
+  useKioskTokenRefresh()
+  return null
+}
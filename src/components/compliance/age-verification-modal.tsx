@@ -2,6 +2,9 @@
 
 import React, { useState } from 'react';
 import { Calendar } from 'lucide-react';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('app');
 
 interface AgeVerificationModalProps {
   sessionId: string;
@@ -51,7 +54,7 @@ export function AgeVerificationModal({
       onVerified(dob, requiresConsent);
     } catch (err) {
       setError('Please enter a valid date');
-      console.error('Age verification error:', err);
+      log.error('Age verification failed', err);
     } finally {
       setIsVerifying(false);
     }
@@ -0,0 +1,9 @@
+'use client';
+
+import { useSessionSocket } from '@/hooks/use-session-socket';
+
+/** Mounted once in the layout so the connection outlives page navigations. */
+export function SessionSocket() {
+  useSessionSocket();
+  return null;
+}
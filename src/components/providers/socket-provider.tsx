@@ -0,0 +1,21 @@
+'use client';
+
+import React, { createContext, useContext } from 'react';
+import { groupKioskWebSocket, type GroupKioskWebSocketService } from '@/lib/websocket';
+
+// Without a provider components fall back to the app-wide instance
+const SocketContext = createContext<GroupKioskWebSocketService>(groupKioskWebSocket);
+
+interface SocketProviderProps {
+  // Defaults to the app-wide instance; tests and isolated views pass their own
+  service?: GroupKioskWebSocketService;
+  children: React.ReactNode;
+}
+
+export function SocketProvider({ service = groupKioskWebSocket, children }: SocketProviderProps) {
+  return <SocketContext.Provider value={service}>{children}</SocketContext.Provider>;
+}
+
+export function useSocketService(): GroupKioskWebSocketService {
+  return useContext(SocketContext);
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import type { ConnectionQuality, ConnectionStats } from '@/lib/connection-quality';
+import { cn } from '@/lib/cn';
+
+interface ConnectionQualityIndicatorProps {
+  isConnected: boolean;
+  stats: ConnectionStats | null;
+}
+
+const QUALITY_LABELS: Record<ConnectionQuality, string> = {
+  good: 'Good connection',
+  degraded: 'Unstable connection',
+  poor: 'Poor connection',
+};
+
+const QUALITY_BARS: Record<ConnectionQuality, number> = { good: 3, degraded: 2, poor: 1 };
+
+const QUALITY_COLORS: Record<ConnectionQuality, string> = {
+  good: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  poor: 'bg-red-500',
+};
+
+export function ConnectionQualityIndicator({ isConnected, stats }: ConnectionQualityIndicatorProps) {
+  if (!isConnected) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <div className="h-2 w-2 rounded-full bg-red-500" />
+        <span>Disconnected</span>
+      </div>
+    );
+  }
+
+  // Connected but no pong yet: show plain "Connected" rather than guessing a level
+  if (!stats || (stats.latencyMs === null && stats.missedBeats === 0)) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <div className="h-2 w-2 rounded-full bg-green-500" />
+        <span>Connected</span>
+      </div>
+    );
+  }
+
+  const { quality, latencyMs, jitterMs, missedBeats } = stats;
+  const details = [
+    latencyMs !== null ? `${latencyMs} ms latency` : null,
+    jitterMs !== null ? `${jitterMs} ms jitter` : null,
+    missedBeats > 0 ? `${missedBeats} missed heartbeat${missedBeats > 1 ? 's' : ''}` : null,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="flex items-center gap-2 text-sm" title={details} aria-label={`${QUALITY_LABELS[quality]}: ${details}`}>
+      <div className="flex h-4 items-end gap-0.5" aria-hidden="true">
+        {[1, 2, 3].map((bar) => (
+          <div
+            key={bar}
+            className={cn(
+              'w-1 rounded-sm',
+              bar <= QUALITY_BARS[quality] ? QUALITY_COLORS[quality] : 'bg-gray-300'
+            )}
+            style={{ height: `${bar * 33}%` }}
+          />
+        ))}
+      </div>
+      <span>{QUALITY_LABELS[quality]}</span>
+      {latencyMs !== null && <span className="text-gray-500">{latencyMs} ms</span>}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { Mic } from 'lucide-react';
+
+interface MicrophonePickerProps {
+  devices: MediaDeviceInfo[];
+  selectedDeviceId: string | null;
+  disabled?: boolean;
+  onSelect: (deviceId: string | null) => void;
+}
+
+export function MicrophonePicker({
+  devices,
+  selectedDeviceId,
+  disabled,
+  onSelect
+}: MicrophonePickerProps) {
+  // Nothing to choose between on single-mic devices
+  if (devices.length < 2) return null;
+
+  const isKnownDevice = devices.some((d) => d.deviceId === selectedDeviceId);
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <Mic className="h-4 w-4 text-gray-500" />
+      <span className="sr-only">Microphone</span>
+      <select
+        value={isKnownDevice ? selectedDeviceId ?? '' : ''}
+        onChange={(e) => onSelect(e.target.value || null)}
+        disabled={disabled}
+        className="rounded-lg border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+      >
+        <option value="">Default microphone</option>
+        {devices.map((device, idx) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `Microphone ${idx + 1}`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import { EyeOff } from 'lucide-react';
+import { cn } from '@/lib/cn';
+
+interface PrivacyPauseButtonProps {
+  isActive: boolean;
+  disabled?: boolean;
+  onStart: () => void;
+  onEnd: () => void;
+}
+
+/**
+ * Hold-to-mute control: audio is held back for as long as the button is
+ * pressed (pointer or Space/Enter) and resumes as soon as it is released.
+ */
+export function PrivacyPauseButton({
+  isActive,
+  disabled,
+  onStart,
+  onEnd
+}: PrivacyPauseButtonProps) {
+  const release = () => {
+    if (isActive) onEnd();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === ' ' || e.key === 'Enter') && !e.repeat && !isActive) {
+      e.preventDefault();
+      onStart();
+    }
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      release();
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      disabled={disabled}
+      aria-pressed={isActive}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        if (!isActive) onStart();
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onLostPointerCapture={release}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onBlur={release}
+      onContextMenu={(e) => e.preventDefault()}
+      className={cn(
+        'touch-target flex select-none items-center gap-2 rounded-full px-6 py-3 font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50',
+        isActive
+          ? 'bg-purple-600 text-white'
+          : 'bg-white text-purple-700 ring-1 ring-purple-300 hover:bg-purple-50'
+      )}
+    >
+      <EyeOff className="h-5 w-5" />
+      <span>{isActive ? 'Private — release to resume' : 'Hold for privacy'}</span>
+    </button>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { downloadDiagnosticBundle } from '@/lib/logger';
+import { cn } from '@/lib/cn';
+
+interface DiagnosticsExportButtonProps {
+  // Read at click time so the bundle reflects the current state of the page
+  getContext?: () => Record<string, unknown>;
+  className?: string;
+}
+
+/** Saves recent (redacted) logs as a JSON file to attach to a support ticket. */
+export function DiagnosticsExportButton({ getContext, className }: DiagnosticsExportButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => downloadDiagnosticBundle(getContext?.())}
+      className={cn(
+        'inline-flex items-center gap-1 text-xs text-gray-500 underline-offset-2 hover:text-gray-700 hover:underline',
+        className
+      )}
+    >
+      <Download className="h-3 w-3" />
+      Download diagnostics
+    </button>
+  );
+}
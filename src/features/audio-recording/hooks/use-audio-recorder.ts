@@ -1,108 +1,349 @@
-import { useCallback, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createLogger } from '@/lib/logger'
+import {
+  PCM16_WORKLET_NAME,
+  Downsampler,
+  floatTo16BitPCM,
+  getPcm16WorkletUrl,
+} from '../lib/pcm16'
+import {
+  UNSUPPORTED_BROWSER_MESSAGE,
+  negotiateAudioFormat,
+  type AudioFormat,
+  type CaptureMode,
+} from '../lib/audio-format'
+import {
+  loadPreferredInputDevice,
+  savePreferredInputDevice,
+} from '../lib/device-preference'
+import {
+  isCapturing,
+  nextRecorderStatus,
+  type RecorderEvent,
+  type RecorderStatus,
+} from '../lib/recorder-state-machine'
+
+const log = createLogger('audio')
+
+export type { AudioFormat, CaptureMode, RecorderStatus }
+
+export interface VoiceActivityOptions {
+  enabled: boolean
+  threshold?: number // audio level (0-100) treated as speech
+  hangoverMs?: number // how long speech is assumed to continue after the level drops
+  silentChunkInterval?: number // forward every Nth silent chunk; 0 drops them all
+}
+
+export interface AudioChunkInfo {
+  isSpeech: boolean
+  mimeType: string
+  // The chunk carries the container header every later chunk of the stream needs
+  isHeader: boolean
+}
 
 interface UseAudioRecorderOptions {
-  onDataAvailable?: (blob: Blob) => void
+  onDataAvailable?: (blob: Blob, info: AudioChunkInfo) => void
+  // Called once capture is running, with the negotiated format and real sample rate
+  onStreamStart?: (format: AudioFormat) => void
+  // Called when capture is interrupted (mic unplugged, OS revoke, suspended context)
+  onCaptureIssue?: (message: string) => void
+  // Called on every accepted state machine transition
+  onStatusChange?: (status: RecorderStatus, previous: RecorderStatus) => void
   chunkSize?: number // in milliseconds
+  vad?: VoiceActivityOptions
+  // Preferred capture path; the other one is used if this browser lacks it.
+  // 'pcm16' captures raw 16-bit mono frames through an AudioWorklet
+  captureMode?: CaptureMode
+  targetSampleRate?: number // pcm16 only
+  // pcm16 only: run the AudioContext at the device rate and downsample in JS,
+  // for browsers that reject a 16 kHz context on a 44.1/48 kHz microphone
+  clientDownsampling?: boolean
 }
 
+export type RecoveryStatus = 'idle' | 'recovering' | 'recovered' | 'failed'
+
+const MAX_RECOVERY_ATTEMPTS = 3
+const RECOVERY_BACKOFF_MS = 1000
+const TRACK_MUTE_GRACE_MS = 3000
+const RECOVERED_NOTICE_MS = 4000
+
+const PERMISSION_DENIED_MESSAGE = 'Microphone permission denied'
+const PERMISSION_MISSING_MESSAGE = 'Microphone permission not granted'
+const START_FAILED_MESSAGE = 'Could not access microphone. Please check permissions.'
+const RECOVERY_FAILED_MESSAGE =
+  'The microphone stopped working and could not be restarted. Check the mic and tap record again.'
+
+const DEFAULT_VAD_THRESHOLD = 8
+const DEFAULT_VAD_HANGOVER_MS = 1500
+// Level sampling runs on a timer, not requestAnimationFrame, which stops in background tabs.
+// Timers are throttled there too, so a chunk with no recent sample is treated as speech.
+const LEVEL_SAMPLE_MS = 50
+const LEVEL_STALE_MS = 500
+
 export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
-  const { onDataAvailable, chunkSize = 500 } = options
-  const [isRecording, setIsRecording] = useState(false)
-  const [isPaused, setIsPaused] = useState(false)
+  const {
+    onDataAvailable,
+    onStreamStart,
+    onCaptureIssue,
+    onStatusChange,
+    chunkSize = 500,
+    vad,
+    captureMode = 'media-recorder',
+    targetSampleRate = 16000,
+    clientDownsampling = false,
+  } = options
+  const [status, setStatus] = useState<RecorderStatus>('idle')
   const [error, setError] = useState<string | null>(null)
   const [audioLevel, setAudioLevel] = useState(0)
   const [hasPermission, setHasPermission] = useState(false)
   const [duration, setDuration] = useState(0)
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null)
   const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [isSpeaking, setIsSpeaking] = useState(false)
+  const [format, setFormat] = useState<AudioFormat | null>(null)
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [deviceId, setDeviceId] = useState<string | null>(null)
+  const [recoveryStatus, setRecoveryStatus] = useState<RecoveryStatus>('idle')
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
-  const animationFrameRef = useRef<number | null>(null)
+  const levelTimerRef = useRef<number | null>(null)
   const durationIntervalRef = useRef<number | null>(null)
   const chunksRef = useRef<Blob[]>([])
+  const streamRef = useRef<MediaStream | null>(null)
+  const negotiatedRef = useRef<AudioFormat | null>(null)
+
+  // Mirrors `status` synchronously so guards see transitions made in the same tick
+  const statusRef = useRef<RecorderStatus>('idle')
+  const onStatusChangeRef = useRef(onStatusChange)
+  onStatusChangeRef.current = onStatusChange
+
+  // PCM16 worklet capture state
+  const workletNodeRef = useRef<AudioWorkletNode | null>(null)
+  const pcmFramesRef = useRef<Int16Array[]>([])
+  const pcmLengthRef = useRef(0)
+  const flushPcmRef = useRef<(() => void) | null>(null)
+  const isPcmPausedRef = useRef(false)
+
+  // Voice activity tracking; config lives in a ref so callers can pass an inline object
+  const vadRef = useRef(vad)
+  vadRef.current = vad
+  const isSpeakingRef = useRef(false)
+  const lastSpeechAtRef = useRef(0)
+  const lastLevelAtRef = useRef(0)
+  const speechInChunkRef = useRef(false)
+  const silentChunkCountRef = useRef(0)
+
+  // Input device selection; refs let the restart paths see the latest values
+  const deviceIdRef = useRef<string | null>(null)
+  const restartRef = useRef<(() => Promise<void>) | null>(null)
+
+  // Automatic recovery when capture silently dies
+  const recoverRef = useRef<((reason: string) => Promise<void>) | null>(null)
+  const isRecoveringRef = useRef(false)
+  const trackMuteTimerRef = useRef<number | null>(null)
+  const onCaptureIssueRef = useRef(onCaptureIssue)
+  onCaptureIssueRef.current = onCaptureIssue
+
+  const dispatch = useCallback((event: RecorderEvent) => {
+    const previous = statusRef.current
+    const next = nextRecorderStatus(previous, event)
+    if (!next) return false
+
+    statusRef.current = next
+    setStatus(next)
+    if (event.type === 'FAIL' || event.type === 'PERMISSION_DENIED') {
+      setError(event.error)
+    }
+    if (next !== previous) {
+      onStatusChangeRef.current?.(next, previous)
+    }
+    return true
+  }, [])
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return []
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices()
+      const inputs = all.filter((d) => d.kind === 'audioinput')
+      setDevices(inputs)
+      return inputs
+    } catch {
+      return []
+    }
+  }, [])
+
+  useEffect(() => {
+    const preferred = loadPreferredInputDevice()
+    deviceIdRef.current = preferred
+    setDeviceId(preferred)
+  }, [])
 
   const requestPermission = useCallback(async () => {
+    if (!dispatch({ type: 'REQUEST_PERMISSION' })) return
     try {
       setError(null)
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
       // Stop tracks immediately; this is a permission probe
       stream.getTracks().forEach((t) => t.stop())
       setHasPermission(true)
+      dispatch({ type: 'PERMISSION_GRANTED' })
+      // Device labels are only exposed once permission is granted
+      await refreshDevices()
     } catch (err) {
       setHasPermission(false)
-      setError('Microphone permission denied')
+      dispatch({ type: 'PERMISSION_DENIED', error: PERMISSION_DENIED_MESSAGE })
     }
-  }, [])
+  }, [dispatch, refreshDevices])
 
-  const startRecording = useCallback(async () => {
+  // Acquires the mic and capture pipeline; throws if any part fails. With
+  // `paused` nothing is captured until resumeRecording
+  const beginCapture = useCallback(async (negotiated: AudioFormat, paused = false) => {
+    chunksRef.current = []
+    speechInChunkRef.current = false
+    silentChunkCountRef.current = 0
+    const { mimeType } = negotiated
+    const usePcm16 = negotiated.captureMode === 'pcm16'
+
+    // Request microphone permission
+    const constraints: MediaTrackConstraints = {
+      echoCancellation: true,
+      noiseSuppression: true,
+      channelCount: { ideal: 1 },
+      sampleRate: { ideal: 16000 },
+      sampleSize: { ideal: 16 },
+    }
+    const preferredDeviceId = deviceIdRef.current
+    let stream: MediaStream
     try {
-      setError(null)
-      setAudioBlob(null)
-      setAudioUrl(null)
-      setDuration(0)
-      setIsPaused(false)
-      chunksRef.current = []
-      if (!hasPermission) {
-        setError('Microphone permission not granted')
-        return
-      }
-      
-      // Request microphone permission
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          channelCount: { ideal: 1 },
-          sampleRate: { ideal: 16000 },
-          sampleSize: { ideal: 16 },
-        }
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: preferredDeviceId
+          ? { ...constraints, deviceId: { exact: preferredDeviceId } }
+          : constraints
       })
+    } catch (err) {
+      // The remembered mic may be unplugged; fall back to the default one
+      if (!preferredDeviceId) throw err
+      stream = await navigator.mediaDevices.getUserMedia({ audio: constraints })
+    }
+
+    streamRef.current = stream
 
-      // Create MediaRecorder configured for speech (Opus @ 32kbps)
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus',
-        audioBitsPerSecond: 32000
+    // Recover if the input disappears or the OS mutes it for too long
+    stream.getAudioTracks?.().forEach((track) => {
+      track.addEventListener('ended', () => {
+        if (streamRef.current === stream) void recoverRef.current?.('Microphone disconnected')
       })
+      track.addEventListener('mute', () => {
+        if (trackMuteTimerRef.current) clearTimeout(trackMuteTimerRef.current)
+        trackMuteTimerRef.current = window.setTimeout(() => {
+          trackMuteTimerRef.current = null
+          if (streamRef.current === stream && track.muted) {
+            void recoverRef.current?.('Microphone muted by the system')
+          }
+        }, TRACK_MUTE_GRACE_MS)
+      })
+      track.addEventListener('unmute', () => {
+        if (trackMuteTimerRef.current) clearTimeout(trackMuteTimerRef.current)
+        trackMuteTimerRef.current = null
+      })
+    })
+
+    // Create MediaRecorder configured for speech (Opus @ 32kbps)
+    const mediaRecorder = usePcm16
+      ? null
+      : new MediaRecorder(stream, {
+          mimeType,
+          audioBitsPerSecond: 32000
+        })
+
+    // Set up audio level monitoring
+    audioContextRef.current = usePcm16 && clientDownsampling
+      ? new AudioContext()
+      : new AudioContext({ sampleRate: usePcm16 ? targetSampleRate : 16000 })
+    const audioContext = audioContextRef.current
+    // Backgrounded tabs can suspend the context, which silences PCM capture and the meter
+    audioContext.onstatechange = () => {
+      if (audioContextRef.current !== audioContext || audioContext.state !== 'suspended') return
+      audioContext.resume().catch(() => {
+        void recoverRef.current?.('Audio processing was suspended')
+      })
+    }
+    const source = audioContextRef.current.createMediaStreamSource(stream)
+    analyserRef.current = audioContextRef.current.createAnalyser()
+    analyserRef.current.fftSize = 256
+    source.connect(analyserRef.current)
 
-      // Set up audio level monitoring
-      audioContextRef.current = new AudioContext({ sampleRate: 16000 })
-      const source = audioContextRef.current.createMediaStreamSource(stream)
-      analyserRef.current = audioContextRef.current.createAnalyser()
-      analyserRef.current.fftSize = 256
-      source.connect(analyserRef.current)
-
-      // Start monitoring audio levels
-      const monitorAudioLevel = () => {
-        if (!analyserRef.current) return
-        
-        const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount)
-        analyserRef.current.getByteFrequencyData(dataArray)
-        
-        const average = dataArray.reduce((a, b) => a + b) / dataArray.length
-        setAudioLevel(Math.min(100, (average / 128) * 100))
-        
-        animationFrameRef.current = requestAnimationFrame(monitorAudioLevel)
+    // Start monitoring audio levels
+    const sampleAudioLevel = () => {
+      if (!analyserRef.current) return
+
+      const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount)
+      analyserRef.current.getByteFrequencyData(dataArray)
+
+      const average = dataArray.reduce((a, b) => a + b) / dataArray.length
+      const level = Math.min(100, (average / 128) * 100)
+      setAudioLevel(level)
+
+      // Energy-threshold VAD with a hangover so short pauses don't flap
+      const now = Date.now()
+      lastLevelAtRef.current = now
+      const vadConfig = vadRef.current
+      if (vadConfig?.enabled) {
+        if (level >= (vadConfig.threshold ?? DEFAULT_VAD_THRESHOLD)) {
+          lastSpeechAtRef.current = now
+          speechInChunkRef.current = true
+        }
+        const speaking = now - lastSpeechAtRef.current <= (vadConfig.hangoverMs ?? DEFAULT_VAD_HANGOVER_MS)
+        if (speaking !== isSpeakingRef.current) {
+          isSpeakingRef.current = speaking
+          setIsSpeaking(speaking)
+        }
+      }
+    }
+    sampleAudioLevel()
+    levelTimerRef.current = window.setInterval(sampleAudioLevel, LEVEL_SAMPLE_MS)
+
+    // Shared chunk handling for both capture paths
+    const handleChunk = (data: Blob) => {
+      const isFirstChunk = chunksRef.current.length === 0
+      chunksRef.current.push(data)
+
+      const vadConfig = vadRef.current
+      const levelIsStale = Date.now() - lastLevelAtRef.current > LEVEL_STALE_MS
+      const isSpeech =
+        !vadConfig?.enabled || levelIsStale || speechInChunkRef.current || isSpeakingRef.current
+      speechInChunkRef.current = false
+
+      // The first chunk carries the container header, so it is always sent
+      let shouldSend = isSpeech || isFirstChunk
+      if (!shouldSend) {
+        silentChunkCountRef.current += 1
+        const interval = vadConfig?.silentChunkInterval ?? 0
+        shouldSend = interval > 0 && silentChunkCountRef.current % interval === 0
+      } else {
+        silentChunkCountRef.current = 0
       }
-      monitorAudioLevel()
 
+      // Send chunk if callback provided
+      if (onDataAvailable && shouldSend) {
+        onDataAvailable(data, { isSpeech, mimeType, isHeader: isFirstChunk && !usePcm16 })
+      }
+    }
+
+    if (mediaRecorder) {
       // Handle data chunks
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          chunksRef.current.push(event.data)
-          
-          // Send chunk if callback provided
-          if (onDataAvailable) {
-            onDataAvailable(event.data)
-          }
+          handleChunk(event.data)
         }
       }
 
       mediaRecorder.onstop = () => {
         // Combine chunks into a single blob and create URL
         if (chunksRef.current.length > 0) {
-          const blob = new Blob(chunksRef.current, { type: 'audio/webm;codecs=opus' })
+          const blob = new Blob(chunksRef.current, { type: mimeType })
           setAudioBlob(blob)
           const url = URL.createObjectURL(blob)
           setAudioUrl(url)
@@ -111,21 +352,71 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
 
       // Start recording with time slicing
       mediaRecorder.start(chunkSize)
+      if (paused) mediaRecorder.pause()
       mediaRecorderRef.current = mediaRecorder
-      setIsRecording(true)
+    } else {
+      const samplesPerChunk = Math.round((targetSampleRate * chunkSize) / 1000)
+      pcmFramesRef.current = []
+      pcmLengthRef.current = 0
+      isPcmPausedRef.current = paused
 
-      // Start duration timer
-      durationIntervalRef.current = window.setInterval(() => {
-        setDuration((d) => d + 1)
-      }, 1000)
+      flushPcmRef.current = () => {
+        if (pcmLengthRef.current === 0) return
+        const samples = new Int16Array(pcmLengthRef.current)
+        let offset = 0
+        pcmFramesRef.current.forEach((frame) => {
+          samples.set(frame, offset)
+          offset += frame.length
+        })
+        pcmFramesRef.current = []
+        pcmLengthRef.current = 0
+        handleChunk(new Blob([samples.buffer], { type: mimeType }))
+      }
 
-    } catch (err) {
-      console.error('Error starting recording:', err)
-      setError('Could not access microphone. Please check permissions.')
+      await audioContext.audioWorklet.addModule(getPcm16WorkletUrl())
+      const workletNode = new AudioWorkletNode(audioContext, PCM16_WORKLET_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+      })
+      // One per capture so the resampling position carries from frame to frame
+      const downsampler = new Downsampler(audioContext.sampleRate, targetSampleRate)
+      workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        if (isPcmPausedRef.current) return
+        const frame = floatTo16BitPCM(downsampler.process(event.data))
+        pcmFramesRef.current.push(frame)
+        pcmLengthRef.current += frame.length
+        if (pcmLengthRef.current >= samplesPerChunk) {
+          flushPcmRef.current?.()
+        }
+      }
+      source.connect(workletNode)
+      workletNodeRef.current = workletNode
+    }
+
+    // PCM is resampled to the target rate; encoded audio keeps the mic's rate
+    const trackSampleRate = stream.getAudioTracks?.()[0]?.getSettings().sampleRate
+    const startedFormat: AudioFormat = {
+      ...negotiated,
+      sampleRate: usePcm16 ? targetSampleRate : trackSampleRate ?? audioContext.sampleRate,
+    }
+    setFormat(startedFormat)
+    onStreamStart?.(startedFormat)
+    void refreshDevices()
+
+    // Start duration timer; the clock holds while paused
+    durationIntervalRef.current = window.setInterval(() => {
+      if (statusRef.current === 'paused') return
+      setDuration((d) => d + 1)
+    }, 1000)
+  }, [chunkSize, onDataAvailable, onStreamStart, targetSampleRate, clientDownsampling, refreshDevices])
+
+  // Releases everything beginCapture acquired; safe to call more than once
+  const teardown = useCallback(() => {
+    if (trackMuteTimerRef.current) {
+      clearTimeout(trackMuteTimerRef.current)
+      trackMuteTimerRef.current = null
     }
-  }, [chunkSize, onDataAvailable, hasPermission])
 
-  const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop()
       
@@ -133,16 +424,33 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
       mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop())
     }
 
+    if (workletNodeRef.current) {
+      // Emit the partial final chunk, then assemble the full PCM recording
+      flushPcmRef.current?.()
+      flushPcmRef.current = null
+      workletNodeRef.current.port.onmessage = null
+      workletNodeRef.current.disconnect()
+      workletNodeRef.current = null
+      if (chunksRef.current.length > 0) {
+        const blob = new Blob(chunksRef.current, { type: chunksRef.current[0].type })
+        setAudioBlob(blob)
+        setAudioUrl(URL.createObjectURL(blob))
+      }
+    }
+
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+
     // Clean up audio context
     if (audioContextRef.current) {
       audioContextRef.current.close()
       audioContextRef.current = null
     }
 
-    // Cancel animation frame
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current)
-      animationFrameRef.current = null
+    // Stop level sampling
+    if (levelTimerRef.current) {
+      clearInterval(levelTimerRef.current)
+      levelTimerRef.current = null
     }
 
     // Clear duration timer
@@ -151,32 +459,173 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
       durationIntervalRef.current = null
     }
 
-    setIsRecording(false)
-    setIsPaused(false)
     setAudioLevel(0)
+    isSpeakingRef.current = false
+    setIsSpeaking(false)
+  }, [])
+
+  const startRecording = useCallback(async () => {
+    if (!dispatch({ type: 'START' })) return
+
+    setError(null)
+    setAudioBlob(null)
+    setAudioUrl(null)
+    setDuration(0)
+    setRecoveryStatus('idle')
+    if (!hasPermission) {
+      dispatch({ type: 'FAIL', error: PERMISSION_MISSING_MESSAGE })
+      return
+    }
+
+    const negotiated = negotiateAudioFormat(captureMode, targetSampleRate)
+    if (!negotiated) {
+      dispatch({ type: 'FAIL', error: UNSUPPORTED_BROWSER_MESSAGE })
+      return
+    }
+    negotiatedRef.current = negotiated
+
+    try {
+      await beginCapture(negotiated)
+      dispatch({ type: 'STARTED' })
+    } catch (err) {
+      log.error('Failed to start recording', err)
+      teardown()
+      dispatch({ type: 'FAIL', error: START_FAILED_MESSAGE })
+    }
+  }, [dispatch, hasPermission, captureMode, targetSampleRate, beginCapture, teardown])
+
+  const stopRecording = useCallback(() => {
+    if (!dispatch({ type: 'STOP' })) return
+    teardown()
+    dispatch({ type: 'STOPPED' })
+  }, [dispatch, teardown])
+
+  // Re-acquires the mic without leaving the session: the clock and recovery state carry on,
+  // and so does a pause, so a device swap never puts a paused mic back on air
+  const restartCapture = useCallback(async (paused = statusRef.current === 'paused') => {
+    const negotiated = negotiatedRef.current
+    if (!negotiated || !dispatch({ type: 'RESTART' })) return
+    teardown()
+    try {
+      await beginCapture(negotiated, paused)
+      dispatch({ type: paused ? 'STARTED_PAUSED' : 'STARTED' })
+    } catch (err) {
+      log.error('Failed to restart recording', err)
+      teardown()
+      dispatch({ type: 'FAIL', error: START_FAILED_MESSAGE })
+    }
+  }, [dispatch, beginCapture, teardown])
+
+  const restartRecording = useCallback(async () => {
+    if (!isCapturing(statusRef.current)) return
+    await restartCapture()
+  }, [restartCapture])
+  restartRef.current = restartRecording
+
+  // Bounded restarts with linear backoff; gives up rather than pretending to record
+  const recover = useCallback(async (reason: string) => {
+    if (!isCapturing(statusRef.current) || isRecoveringRef.current) return
+    // A failed attempt leaves the recorder in error, so remember the pause up front
+    const paused = statusRef.current === 'paused'
+    isRecoveringRef.current = true
+    setRecoveryStatus('recovering')
+    onCaptureIssueRef.current?.(reason)
+
+    try {
+      for (let attempt = 1; attempt <= MAX_RECOVERY_ATTEMPTS; attempt++) {
+        await restartCapture(paused)
+        if (streamRef.current?.getAudioTracks()[0]?.readyState === 'live') {
+          setRecoveryStatus('recovered')
+          window.setTimeout(() => {
+            setRecoveryStatus((status) => (status === 'recovered' ? 'idle' : status))
+          }, RECOVERED_NOTICE_MS)
+          return
+        }
+        await new Promise((resolve) => setTimeout(resolve, RECOVERY_BACKOFF_MS * attempt))
+      }
+
+      teardown()
+      setRecoveryStatus('failed')
+      if (!dispatch({ type: 'FAIL', error: RECOVERY_FAILED_MESSAGE })) {
+        setError(RECOVERY_FAILED_MESSAGE)
+      }
+      onCaptureIssueRef.current?.(`${reason}; automatic restart failed`)
+    } finally {
+      isRecoveringRef.current = false
+    }
+  }, [dispatch, restartCapture, teardown])
+  recoverRef.current = recover
+
+  // Resume a suspended context as soon as the tab is visible again
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const audioContext = audioContextRef.current
+      if (document.visibilityState !== 'visible' || !audioContext) return
+      if (audioContext.state !== 'running' && audioContext.state !== 'closed') {
+        audioContext.resume().catch(() => {
+          void recoverRef.current?.('Audio processing was suspended')
+        })
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
   }, [])
 
+  const selectDevice = useCallback(async (id: string | null) => {
+    deviceIdRef.current = id
+    setDeviceId(id)
+    savePreferredInputDevice(id)
+    await restartRef.current?.()
+  }, [])
+
+  // Hot-plugged mics: refresh the list and leave a device that was removed
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices
+    if (!mediaDevices?.addEventListener) return
+
+    const handleDeviceChange = async () => {
+      const inputs = await refreshDevices()
+      const activeTrack = streamRef.current?.getAudioTracks()[0]
+      if (!activeTrack) return
+      const activeId = activeTrack.getSettings().deviceId
+      const preferred = deviceIdRef.current
+      const preferredReturned = !!preferred && preferred !== activeId && inputs.some((d) => d.deviceId === preferred)
+      if (activeTrack.readyState === 'ended') {
+        await recoverRef.current?.('Microphone disconnected')
+      } else if (preferredReturned) {
+        await restartRef.current?.()
+      }
+    }
+
+    mediaDevices.addEventListener('devicechange', handleDeviceChange)
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange)
+  }, [refreshDevices])
+
   const pauseRecording = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+    if (!dispatch({ type: 'PAUSE' })) return
+    if (mediaRecorderRef.current?.state === 'recording') {
       mediaRecorderRef.current.pause()
-      setIsPaused(true)
     }
-  }, [])
+    isPcmPausedRef.current = true
+  }, [dispatch])
 
   const resumeRecording = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'paused') {
+    if (!dispatch({ type: 'RESUME' })) return
+    if (mediaRecorderRef.current?.state === 'paused') {
       mediaRecorderRef.current.resume()
-      setIsPaused(false)
     }
-  }, [])
+    isPcmPausedRef.current = false
+  }, [dispatch])
 
+  // Ignored while a start, stop or permission request is still in flight
   const toggleRecording = useCallback(() => {
-    if (isRecording) {
+    const current = statusRef.current
+    if (isCapturing(current)) {
       stopRecording()
-    } else {
-      startRecording()
+    } else if (current === 'idle' || current === 'error') {
+      void startRecording()
     }
-  }, [isRecording, startRecording, stopRecording])
+  }, [startRecording, stopRecording])
 
   const clearRecording = useCallback(() => {
     if (audioUrl) {
@@ -189,9 +638,17 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
   }, [audioUrl])
 
   return {
-    isRecording,
-    isPaused,
+    status,
+    isRecording: isCapturing(status),
+    isPaused: status === 'paused',
     audioLevel,
+    isSpeaking,
+    format,
+    recoveryStatus,
+    devices,
+    deviceId,
+    selectDevice,
+    refreshDevices,
     error,
     hasPermission,
     duration,
@@ -201,6 +658,7 @@ export function useAudioRecorder(options: UseAudioRecorderOptions = {}) {
     startRecording,
     stopRecording,
     toggleRecording,
+    restartRecording,
     pauseRecording,
     resumeRecording,
     clearRecording
@@ -0,0 +1,50 @@
+import { pcm16MimeType } from './pcm16'
+
+export type CaptureMode = 'media-recorder' | 'pcm16'
+
+export interface AudioFormat {
+  captureMode: CaptureMode
+  mimeType: string
+  sampleRate: number
+}
+
+// In order of preference; Safari/iPad only offers the mp4 variants
+export const RECORDER_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+]
+
+export const UNSUPPORTED_BROWSER_MESSAGE =
+  'This browser cannot record audio. Please use a recent version of Chrome, Edge, Firefox or Safari.'
+
+export function selectRecorderMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  if (typeof MediaRecorder.isTypeSupported !== 'function') return RECORDER_MIME_TYPES[0]
+  return RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null
+}
+
+export function isPcm16CaptureSupported(): boolean {
+  return typeof AudioWorkletNode !== 'undefined'
+}
+
+/**
+ * Picks the capture path and container for this browser. The preferred mode
+ * is tried first and the other one is used as a fallback; `sampleRate` is the
+ * requested rate and is replaced with the real one once the mic is open.
+ */
+export function negotiateAudioFormat(
+  preferred: CaptureMode,
+  targetSampleRate: number,
+): AudioFormat | null {
+  const recorderMimeType = selectRecorderMimeType()
+  const recorderFormat: AudioFormat | null = recorderMimeType
+    ? { captureMode: 'media-recorder', mimeType: recorderMimeType, sampleRate: targetSampleRate }
+    : null
+  const pcmFormat: AudioFormat | null = isPcm16CaptureSupported()
+    ? { captureMode: 'pcm16', mimeType: pcm16MimeType(targetSampleRate), sampleRate: targetSampleRate }
+    : null
+
+  return preferred === 'pcm16' ? pcmFormat ?? recorderFormat : recorderFormat ?? pcmFormat
+}
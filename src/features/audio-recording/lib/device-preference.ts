@@ -0,0 +1,22 @@
+const PREFERRED_INPUT_KEY = 'classwaves:preferred-audio-input'
+
+// Stored per browser profile, so a shared Chromebook remembers its USB mic
+export function loadPreferredInputDevice(): string | null {
+  try {
+    return localStorage.getItem(PREFERRED_INPUT_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function savePreferredInputDevice(deviceId: string | null): void {
+  try {
+    if (deviceId) {
+      localStorage.setItem(PREFERRED_INPUT_KEY, deviceId)
+    } else {
+      localStorage.removeItem(PREFERRED_INPUT_KEY)
+    }
+  } catch {
+    // Storage can be unavailable in private mode; the choice just won't persist
+  }
+}
@@ -0,0 +1,108 @@
+export const PCM16_WORKLET_NAME = 'pcm16-capture'
+
+// Int16Array holds samples in the platform's byte order, which is little-endian on every
+// browser target; audio/L16 would promise big-endian (RFC 2586), so the label says s16le
+export function pcm16MimeType(sampleRate: number): string {
+  return `audio/pcm;encoding=s16le;rate=${sampleRate};channels=1`
+}
+
+// Runs on the audio rendering thread; batches 128-sample render quanta so the
+// main thread receives ~8 messages per second instead of hundreds.
+const WORKLET_SOURCE = `
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.buffer = new Float32Array(2048)
+    this.length = 0
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0]
+    if (!channel) return true
+    for (let i = 0; i < channel.length; i++) {
+      this.buffer[this.length++] = channel[i]
+      if (this.length === this.buffer.length) {
+        this.port.postMessage(this.buffer.slice(0))
+        this.length = 0
+      }
+    }
+    return true
+  }
+}
+
+registerProcessor('${PCM16_WORKLET_NAME}', Pcm16CaptureProcessor)
+`
+
+let workletUrl: string | null = null
+
+export function getPcm16WorkletUrl(): string {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(
+      new Blob([WORKLET_SOURCE], { type: 'application/javascript' }),
+    )
+  }
+  return workletUrl
+}
+
+/**
+ * Box-filter downsampler; good enough for speech going to transcription and
+ * cheap enough to run on low-end tablets.
+ *
+ * Keeps its position across frames: 2048 samples at 48 kHz are 682.67 output
+ * samples, so a per-frame resampler would lose a sample every third frame and
+ * click at the edges. Samples left over at the end of a frame count towards
+ * the first output of the next one.
+ */
+export class Downsampler {
+  private readonly ratio: number
+  private inputIndex = 0
+  private outputIndex = 0
+  private sum = 0
+  private count = 0
+
+  constructor(
+    private readonly inputRate: number,
+    private readonly outputRate: number,
+  ) {
+    this.ratio = inputRate / outputRate
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.outputRate >= this.inputRate) return input
+
+    const output = new Float32Array(Math.ceil(input.length / this.ratio) + 1)
+    let written = 0
+    let boundary = Math.floor((this.outputIndex + 1) * this.ratio)
+    for (let i = 0; i < input.length; i++) {
+      this.sum += input[i]
+      this.count += 1
+      this.inputIndex += 1
+      if (this.inputIndex >= boundary) {
+        output[written++] = this.sum / this.count
+        this.sum = 0
+        this.count = 0
+        this.outputIndex += 1
+        boundary = Math.floor((this.outputIndex + 1) * this.ratio)
+      }
+    }
+    return output.subarray(0, written)
+  }
+}
+
+/** Downsamples a single self-contained buffer; streams go through `Downsampler`. */
+export function downsample(
+  input: Float32Array,
+  inputRate: number,
+  outputRate: number,
+): Float32Array {
+  return new Downsampler(inputRate, outputRate).process(input)
+}
+
+export function floatTo16BitPCM(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length)
+  for (let i = 0; i < input.length; i++) {
+    const sample = Math.max(-1, Math.min(1, input[i]))
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff
+  }
+  return output
+}
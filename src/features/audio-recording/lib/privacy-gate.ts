@@ -0,0 +1,45 @@
+interface GatedChunk {
+  isHeader: boolean
+}
+
+/**
+ * Decides which recorder chunks may leave the device around a privacy pause.
+ *
+ * Any chunk that overlapped the pause is dropped, header included. Without its
+ * header the rest of a WebM stream can't be decoded, so once a header has been
+ * dropped later chunks are held back too until a restarted capture produces a
+ * new one.
+ */
+export class PrivacyGate {
+  private paused = false
+  private inChunk = false
+  private awaitingHeader = false
+
+  start() {
+    this.paused = true
+    this.inChunk = true
+  }
+
+  end() {
+    this.paused = false
+  }
+
+  /** True once a header was dropped; only a restarted capture writes a new one. */
+  needsHeader(): boolean {
+    return this.awaitingHeader
+  }
+
+  admit(chunk: GatedChunk): boolean {
+    if (this.inChunk) {
+      if (chunk.isHeader) this.awaitingHeader = true
+      // The chunk that spans the end of the pause is private too
+      this.inChunk = this.paused
+      return false
+    }
+    if (this.awaitingHeader) {
+      if (!chunk.isHeader) return false
+      this.awaitingHeader = false
+    }
+    return true
+  }
+}
@@ -0,0 +1,76 @@
+export type RecorderStatus =
+  | 'idle'
+  | 'requesting-permission'
+  | 'starting'
+  | 'recording'
+  | 'paused'
+  | 'stopping'
+  | 'error'
+
+export type RecorderEvent =
+  | { type: 'REQUEST_PERMISSION' }
+  | { type: 'PERMISSION_GRANTED' }
+  | { type: 'PERMISSION_DENIED'; error: string }
+  | { type: 'START' }
+  | { type: 'RESTART' }
+  | { type: 'STARTED' }
+  | { type: 'STARTED_PAUSED' }
+  | { type: 'PAUSE' }
+  | { type: 'RESUME' }
+  | { type: 'STOP' }
+  | { type: 'STOPPED' }
+  | { type: 'FAIL'; error: string }
+
+type TransitionTable = {
+  [S in RecorderStatus]: Partial<Record<RecorderEvent['type'], RecorderStatus>>
+}
+
+// Anything not listed is rejected, e.g. START while starting or PAUSE while stopping
+const TRANSITIONS: TransitionTable = {
+  idle: {
+    REQUEST_PERMISSION: 'requesting-permission',
+    START: 'starting',
+  },
+  'requesting-permission': {
+    PERMISSION_GRANTED: 'idle',
+    PERMISSION_DENIED: 'error',
+  },
+  starting: {
+    STARTED: 'recording',
+    // A restart during a pause must not put the mic back on air
+    STARTED_PAUSED: 'paused',
+    FAIL: 'error',
+  },
+  recording: {
+    PAUSE: 'paused',
+    STOP: 'stopping',
+    RESTART: 'starting',
+    FAIL: 'error',
+  },
+  paused: {
+    RESUME: 'recording',
+    STOP: 'stopping',
+    RESTART: 'starting',
+    FAIL: 'error',
+  },
+  stopping: {
+    STOPPED: 'idle',
+  },
+  error: {
+    REQUEST_PERMISSION: 'requesting-permission',
+    START: 'starting',
+    RESTART: 'starting',
+  },
+}
+
+/** Returns the next status, or null when the event is not allowed in `status`. */
+export function nextRecorderStatus(
+  status: RecorderStatus,
+  event: RecorderEvent,
+): RecorderStatus | null {
+  return TRANSITIONS[status][event.type] ?? null
+}
+
+export function isCapturing(status: RecorderStatus): boolean {
+  return status === 'recording' || status === 'paused'
+}
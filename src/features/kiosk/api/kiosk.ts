@@ -1,4 +1,11 @@
 import { apiClient } from '@/lib/api-client'
+import { resolveTokenExpiry } from '@/lib/token-expiry'
+import {
+  isCredentialValid,
+  useAuthStore,
+  type KioskGroupInfo,
+  type KioskSessionInfo,
+} from '@/stores/auth-store'
 
 export interface KioskAuthRequest {
   sessionCode: string
@@ -8,19 +15,8 @@ export interface KioskAuthRequest {
 
 export interface KioskAuthResponse {
   group_access_token: string
-  groupInfo: {
-    id: string
-    name: string
-    sessionId: string
-    groupNumber: number
-    maxMembers: number
-    currentMembers: number
-  }
-  session: {
-    id: string
-    title: string
-    status: string
-  }
+  groupInfo: KioskGroupInfo
+  session: KioskSessionInfo
   expiresAt: string
 }
 
@@ -35,14 +31,40 @@ async function authenticateKiosk(
     },
   )
 
-  if (response.data.group_access_token) {
-    localStorage.setItem('group_access_token', response.data.group_access_token)
-    localStorage.setItem('groupInfo', JSON.stringify(response.data.groupInfo))
-    localStorage.setItem('sessionInfo', JSON.stringify(response.data.session))
+  const { group_access_token: token, groupInfo, session, expiresAt } = response.data
+  if (token) {
+    useAuthStore.getState().signIn(
+      {
+        mode: 'kiosk',
+        token,
+        expiresAt: resolveTokenExpiry(token, expiresAt),
+        sessionId: session.id,
+        groupId: groupInfo.id,
+      },
+      { groupInfo, sessionInfo: session },
+    )
   }
   return response.data
 }
 
+export interface KioskTokenRefreshResponse {
+  group_access_token: string
+  expiresAt: string
+}
+
+// Sent with the token explicitly; the interceptor leaves out tokens that have already expired
+async function refreshToken(
+  groupId: string,
+  token: string,
+): Promise<KioskTokenRefreshResponse> {
+  const response = await apiClient.post<KioskTokenRefreshResponse>(
+    `/kiosk/groups/${groupId}/refresh`,
+    undefined,
+    { headers: { Authorization: `Bearer ${token}` } },
+  )
+  return response.data
+}
+
 async function updateGroupStatus(
   groupId: string,
   isReady: boolean,
@@ -56,24 +78,29 @@ async function leaveGroup(groupId: string): Promise<void> {
   try {
     await apiClient.post(`/kiosk/groups/${groupId}/leave`)
   } finally {
-    localStorage.removeItem('group_access_token')
-    localStorage.removeItem('groupInfo')
-    localStorage.removeItem('sessionInfo')
+    clearStoredAuth()
   }
 }
 
-function getStoredGroupInfo(): KioskAuthResponse['groupInfo'] | null {
-  const groupInfo = localStorage.getItem('groupInfo')
-  return groupInfo ? JSON.parse(groupInfo) : null
+// Only kiosk sign-ins are cleared; a student signed in on this device stays signed in
+function clearStoredAuth(): void {
+  const { credentials, signOut } = useAuthStore.getState()
+  if (credentials?.mode === 'kiosk') signOut()
+}
+
+function getStoredGroupInfo(): KioskGroupInfo | null {
+  return useAuthStore.getState().kiosk?.groupInfo ?? null
 }
 
 function isAuthenticated(): boolean {
-  return !!localStorage.getItem('group_access_token')
+  const { credentials } = useAuthStore.getState()
+  return credentials?.mode === 'kiosk' && isCredentialValid(credentials)
 }
 
 export const kioskApi = {
   authenticateKiosk,
   updateGroupStatus,
+  refreshToken,
   leaveGroup,
   getStoredGroupInfo,
   isAuthenticated,
@@ -0,0 +1,39 @@
+import { useCallback } from 'react'
+import { useAuthStore } from '@/stores/auth-store'
+import { useTokenRefresh, type RefreshedToken } from '@/hooks/use-token-refresh'
+import { resolveTokenExpiry } from '@/lib/token-expiry'
+import { useSocketService } from '@/components/providers/socket-provider'
+import { kioskApi } from '../api/kiosk'
+
+/**
+ * Keeps the group access token of a kiosk fresh for as long as the device
+ * stays signed in, handing the new token to the socket in place.
+ */
+export function useKioskTokenRefresh() {
+  const socket = useSocketService()
+  const credentials = useAuthStore((state) => state.credentials)
+  const setToken = useAuthStore((state) => state.setToken)
+  // Student tokens are refreshed by the session page
+  const groupId = credentials?.mode === 'kiosk' ? credentials.groupId : null
+
+  const refresh = useCallback(async (): Promise<RefreshedToken> => {
+    const current = useAuthStore.getState().credentials
+    if (!groupId || current?.mode !== 'kiosk') throw new Error('Not signed in')
+    const response = await kioskApi.refreshToken(groupId, current.token)
+    return {
+      token: response.group_access_token,
+      expiresAt: resolveTokenExpiry(response.group_access_token, response.expiresAt),
+    }
+  }, [groupId])
+
+  const onRefreshed = useCallback(({ token, expiresAt }: RefreshedToken) => {
+    setToken(token, expiresAt)
+    socket.reauthenticate(token)
+  }, [setToken, socket])
+
+  return useTokenRefresh({
+    expiresAt: groupId ? credentials?.expiresAt ?? null : null,
+    refresh,
+    onRefreshed,
+  })
+}
@@ -0,0 +1,44 @@
+import { apiClient } from '@/lib/api-client'
+import type { BufferedAudioChunk } from '../lib/audio-chunk-store'
+
+export interface UploadRecordingBatchRequest {
+  sessionId: string
+  groupId: string
+  chunks: BufferedAudioChunk[]
+  onProgress?: (uploadedBytes: number) => void
+}
+
+export interface UploadRecordingBatchResponse {
+  uploadId: string
+  receivedSequences: number[]
+}
+
+export async function uploadRecordingBatch(
+  data: UploadRecordingBatchRequest,
+): Promise<UploadRecordingBatchResponse> {
+  const form = new FormData()
+  form.append(
+    'metadata',
+    JSON.stringify(
+      data.chunks.map((chunk) => ({
+        sequence: chunk.sequence,
+        capturedAt: chunk.capturedAt,
+        durationMs: chunk.durationMs,
+        format: chunk.mimeType,
+      })),
+    ),
+  )
+  data.chunks.forEach((chunk) => {
+    form.append('chunks', chunk.data, `chunk-${chunk.sequence}`)
+  })
+
+  const resp = await apiClient.post<UploadRecordingBatchResponse>(
+    `/sessions/${data.sessionId}/groups/${data.groupId}/audio/uploads`,
+    form,
+    {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (event) => data.onProgress?.(event.loaded),
+    },
+  )
+  return resp.data
+}
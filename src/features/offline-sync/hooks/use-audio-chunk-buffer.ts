@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { createWebSocketAudioTransport, type AudioTransport } from '@/lib/audio-transport'
+import { createLogger } from '@/lib/logger'
+import { useSocketService } from '@/components/providers/socket-provider'
+import { audioChunkStore } from '../lib/audio-chunk-store'
+
+const log = createLogger('sync')
+
+interface UseAudioChunkBufferOptions {
+  sessionId?: string
+  groupId?: string
+  // Whether the transport can take chunks right now
+  isConnected: boolean
+  // Defaults to the socket from SocketProvider
+  transport?: AudioTransport
+}
+
+/**
+ * Persists every recorded chunk to IndexedDB before it is streamed, so audio
+ * captured during a dropped connection is replayed once the socket is back.
+ */
+export function useAudioChunkBuffer(options: UseAudioChunkBufferOptions) {
+  const { sessionId, groupId, isConnected } = options
+  const socket = useSocketService()
+  const socketTransport = useMemo(() => createWebSocketAudioTransport(socket), [socket])
+  const transport = options.transport ?? socketTransport
+  const transportKind = transport.kind
+  const [pendingCount, setPendingCount] = useState(0)
+
+  const isConnectedRef = useRef(isConnected)
+  const sequenceRef = useRef<Promise<number> | null>(null)
+  const isDrainingRef = useRef(false)
+  const drainRequestedRef = useRef(false)
+  // Sequences sent and awaiting a server acknowledgement, with the transport
+  // generation they went out on
+  const inFlightRef = useRef(new Map<number, number>())
+  const generationRef = useRef(0)
+  // Set when a drain stopped at the transport's window; the next settlement resumes it
+  const windowFullRef = useRef(false)
+  const drainRef = useRef<() => Promise<void>>(async () => undefined)
+
+  useEffect(() => {
+    isConnectedRef.current = isConnected
+  }, [isConnected])
+
+  // Continue numbering after whatever a previous page load left behind
+  useEffect(() => {
+    sequenceRef.current = null
+    generationRef.current += 1
+    inFlightRef.current.clear()
+    if (!sessionId || !groupId || !audioChunkStore.isSupported()) return
+    sequenceRef.current = audioChunkStore
+      .getLastSequence(sessionId, groupId)
+      .catch(() => 0)
+    audioChunkStore
+      .countChunks(sessionId, groupId)
+      .then(setPendingCount)
+      .catch(() => setPendingCount(0))
+  }, [sessionId, groupId])
+
+  // Chained so concurrent captures never share a sequence number
+  const nextSequence = useCallback(() => {
+    const next = (sequenceRef.current ?? Promise.resolve(0)).then((last) => last + 1)
+    sequenceRef.current = next
+    return next
+  }, [])
+
+  const refreshPendingCount = useCallback(() => {
+    if (!sessionId || !groupId) return
+    audioChunkStore
+      .countChunks(sessionId, groupId)
+      .then(setPendingCount)
+      .catch(() => undefined)
+  }, [sessionId, groupId])
+
+  const drain = useCallback(async () => {
+    if (!sessionId || !groupId) return
+    if (isDrainingRef.current) {
+      drainRequestedRef.current = true
+      return
+    }
+
+    isDrainingRef.current = true
+    try {
+      do {
+        drainRequestedRef.current = false
+        const chunks = await audioChunkStore.listChunks(sessionId, groupId)
+        for (const chunk of chunks) {
+          if (!isConnectedRef.current || !transport.isReady()) return
+          if (inFlightRef.current.has(chunk.sequence)) continue
+          if (inFlightRef.current.size >= transport.maxInFlight) {
+            windowFullRef.current = true
+            return
+          }
+
+          const generation = generationRef.current
+          inFlightRef.current.set(chunk.sequence, generation)
+          const audioData = await chunk.data.arrayBuffer()
+          let acknowledged = false
+          // Local copy is only dropped once the server acknowledges it
+          transport
+            .sendChunk(
+              chunk.groupId,
+              audioData,
+              chunk.mimeType,
+              chunk.capturedAt,
+              `${chunk.sessionId}:${chunk.groupId}:${chunk.sequence}`,
+            )
+            .then(() => {
+              acknowledged = true
+              return audioChunkStore.removeChunk(chunk)
+            })
+            .then(refreshPendingCount)
+            .catch(() => undefined)
+            .finally(() => {
+              // A settlement from before a transport switch must not release the resend
+              if (inFlightRef.current.get(chunk.sequence) !== generation) return
+              inFlightRef.current.delete(chunk.sequence)
+              // Failures wait for the next drain rather than retrying in a tight loop
+              if (acknowledged && windowFullRef.current && isConnectedRef.current) {
+                windowFullRef.current = false
+                void drainRef.current()
+              }
+            })
+        }
+      } while (drainRequestedRef.current)
+    } catch (err) {
+      log.error('Failed to drain buffered audio', err)
+    } finally {
+      isDrainingRef.current = false
+    }
+  }, [sessionId, groupId, transport, refreshPendingCount])
+
+  useEffect(() => {
+    drainRef.current = drain
+  }, [drain])
+
+  // Sends whatever is buffered and waits (bounded) for the server to confirm it;
+  // resolves with the number of chunks still only on this device
+  const flush = useCallback(
+    async (timeoutMs: number) => {
+      if (!sessionId || !groupId) return 0
+      await drain()
+      const deadline = Date.now() + timeoutMs
+      while (inFlightRef.current.size > 0 && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 100))
+      }
+      if (!audioChunkStore.isSupported()) return 0
+      return audioChunkStore.countChunks(sessionId, groupId).catch(() => 0)
+    },
+    [sessionId, groupId, drain],
+  )
+
+  const capture = useCallback(
+    async (blob: Blob, mimeType: string, durationMs: number) => {
+      if (!sessionId || !groupId) return
+      const capturedAt = Date.now()
+
+      try {
+        if (!audioChunkStore.isSupported()) throw new Error('IndexedDB unavailable')
+        const sequence = await nextSequence()
+        await audioChunkStore.putChunk({
+          sessionId,
+          groupId,
+          sequence,
+          capturedAt,
+          durationMs,
+          mimeType,
+          data: blob,
+        })
+        setPendingCount((count) => count + 1)
+      } catch (err) {
+        // Without durable storage, fall back to best-effort live streaming
+        log.error('Failed to buffer audio chunk', err)
+        if (isConnectedRef.current) {
+          transport
+            .sendChunk(groupId, await blob.arrayBuffer(), mimeType, capturedAt)
+            .catch(() => undefined)
+        }
+        return
+      }
+
+      if (isConnectedRef.current) {
+        await drain()
+      }
+    },
+    [sessionId, groupId, transport, nextSequence, drain],
+  )
+
+  // Chunks still waiting on the old transport's ack are resent on the new one
+  useEffect(() => {
+    generationRef.current += 1
+    inFlightRef.current.clear()
+  }, [transportKind])
+
+  // Flush the backlog as soon as the socket reconnects or the transport changes
+  useEffect(() => {
+    if (isConnected) {
+      void drain()
+    }
+  }, [isConnected, transportKind, drain])
+
+  return {
+    pendingCount,
+    capture,
+    drain,
+    flush,
+  }
+}
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createLogger } from '@/lib/logger'
+import { uploadRecordingBatch } from '../api/upload-recording'
+import { audioChunkStore, type BufferedRecording } from '../lib/audio-chunk-store'
+
+const log = createLogger('sync')
+
+const CHUNKS_PER_BATCH = 15
+const RETRY_DELAYS_MS = [1000, 2000, 4000, 8000, 16000]
+
+export type UploadStatus = 'pending' | 'uploading' | 'uploaded' | 'failed'
+
+export interface UploadItem extends BufferedRecording {
+  id: string
+  status: UploadStatus
+  progress: number // 0..1
+  error: string | null
+}
+
+function toUploadItem(recording: BufferedRecording): UploadItem {
+  return {
+    ...recording,
+    id: `${recording.sessionId}:${recording.groupId}`,
+    status: 'pending',
+    progress: 0,
+    error: null,
+  }
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Uploads recordings buffered in IndexedDB over HTTP. Chunks are deleted
+ * locally only once the server lists their sequence numbers as received.
+ */
+export function useUploadManager() {
+  const [items, setItems] = useState<UploadItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const activeUploadsRef = useRef(new Set<string>())
+
+  const updateItem = useCallback((id: string, patch: Partial<UploadItem>) => {
+    setItems((current) =>
+      current.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    )
+  }, [])
+
+  const refresh = useCallback(async () => {
+    if (!audioChunkStore.isSupported()) {
+      setIsLoading(false)
+      return
+    }
+    try {
+      const recordings = await audioChunkStore.listRecordings()
+      setItems((current) =>
+        recordings
+          .sort((a, b) => a.startedAt - b.startedAt)
+          .map((recording) => {
+            const item = toUploadItem(recording)
+            const existing = current.find((c) => c.id === item.id)
+            return existing ? { ...item, status: existing.status, error: existing.error } : item
+          }),
+      )
+    } catch (err) {
+      log.error('Failed to read buffered recordings', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const uploadItem = useCallback(
+    async (item: UploadItem) => {
+      if (activeUploadsRef.current.has(item.id)) return
+      activeUploadsRef.current.add(item.id)
+      updateItem(item.id, { status: 'uploading', progress: 0, error: null })
+
+      try {
+        const chunks = await audioChunkStore.listChunks(item.sessionId, item.groupId)
+        const totalBytes = chunks.reduce((sum, chunk) => sum + chunk.data.size, 0) || 1
+        let confirmedBytes = 0
+
+        for (let i = 0; i < chunks.length; i += CHUNKS_PER_BATCH) {
+          // Narrowed after each attempt to what the server has not acknowledged yet
+          let pending = chunks.slice(i, i + CHUNKS_PER_BATCH)
+
+          for (let attempt = 0; ; attempt++) {
+            const pendingBytes = pending.reduce((sum, chunk) => sum + chunk.data.size, 0)
+            try {
+              const { receivedSequences } = await uploadRecordingBatch({
+                sessionId: item.sessionId,
+                groupId: item.groupId,
+                chunks: pending,
+                onProgress: (uploadedBytes) =>
+                  updateItem(item.id, {
+                    progress: (confirmedBytes + Math.min(uploadedBytes, pendingBytes)) / totalBytes,
+                  }),
+              })
+              const received = new Set(receivedSequences)
+              const acknowledged = pending.filter((chunk) => received.has(chunk.sequence))
+              await audioChunkStore.removeChunks(
+                item.sessionId,
+                item.groupId,
+                acknowledged.map((chunk) => chunk.sequence),
+              )
+              confirmedBytes += acknowledged.reduce((sum, chunk) => sum + chunk.data.size, 0)
+              updateItem(item.id, { progress: confirmedBytes / totalBytes })
+
+              pending = pending.filter((chunk) => !received.has(chunk.sequence))
+              if (pending.length > 0) {
+                throw new Error(`Server did not acknowledge ${pending.length} chunk(s)`)
+              }
+              break
+            } catch (err) {
+              if (attempt >= RETRY_DELAYS_MS.length) throw err
+              await wait(RETRY_DELAYS_MS[attempt])
+            }
+          }
+        }
+
+        updateItem(item.id, { status: 'uploaded', progress: 1 })
+      } catch (err) {
+        log.warn('Recording upload failed', err)
+        updateItem(item.id, {
+          status: 'failed',
+          error: err instanceof Error ? err.message : 'Upload failed',
+        })
+      } finally {
+        activeUploadsRef.current.delete(item.id)
+      }
+    },
+    [updateItem],
+  )
+
+  const uploadAll = useCallback(async () => {
+    for (const item of items) {
+      if (item.status === 'pending' || item.status === 'failed') {
+        await uploadItem(item)
+      }
+    }
+    await refresh()
+  }, [items, uploadItem, refresh])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  return {
+    items: items.filter((item) => item.status !== 'uploaded'),
+    isLoading,
+    isUploading: items.some((item) => item.status === 'uploading'),
+    refresh,
+    uploadAll,
+    retry: uploadItem,
+  }
+}
@@ -0,0 +1,176 @@
+const DB_NAME = 'classwaves-audio'
+const DB_VERSION = 1
+const CHUNK_STORE = 'chunks'
+
+export interface BufferedAudioChunk {
+  sessionId: string
+  groupId: string
+  sequence: number
+  capturedAt: number
+  durationMs: number
+  mimeType: string
+  data: Blob
+}
+
+export interface BufferedRecording {
+  sessionId: string
+  groupId: string
+  chunkCount: number
+  sizeBytes: number
+  durationMs: number
+  startedAt: number
+}
+
+type ChunkKey = [string, string, number]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        // Compound key keeps each session/group stream ordered by sequence
+        db.createObjectStore(CHUNK_STORE, {
+          keyPath: ['sessionId', 'groupId', 'sequence'],
+        })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+function streamRange(sessionId: string, groupId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, groupId, 0], [sessionId, groupId, Infinity])
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CHUNK_STORE, mode)
+    const request = operation(tx.objectStore(CHUNK_STORE))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function isSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+async function putChunk(chunk: BufferedAudioChunk): Promise<void> {
+  await runTransaction('readwrite', (store) => store.put(chunk))
+}
+
+async function listChunks(
+  sessionId: string,
+  groupId: string,
+): Promise<BufferedAudioChunk[]> {
+  return runTransaction('readonly', (store) =>
+    store.getAll(streamRange(sessionId, groupId)),
+  )
+}
+
+async function countChunks(sessionId: string, groupId: string): Promise<number> {
+  return runTransaction('readonly', (store) =>
+    store.count(streamRange(sessionId, groupId)),
+  )
+}
+
+async function getLastSequence(
+  sessionId: string,
+  groupId: string,
+): Promise<number> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(CHUNK_STORE, 'readonly')
+    const request = tx
+      .objectStore(CHUNK_STORE)
+      .openCursor(streamRange(sessionId, groupId), 'prev')
+    request.onsuccess = () => {
+      const cursor = request.result
+      resolve(cursor ? (cursor.value as BufferedAudioChunk).sequence : 0)
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function listRecordings(): Promise<BufferedRecording[]> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const recordings = new Map<string, BufferedRecording>()
+    const request = db.transaction(CHUNK_STORE, 'readonly').objectStore(CHUNK_STORE).openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve(Array.from(recordings.values()))
+        return
+      }
+      const chunk = cursor.value as BufferedAudioChunk
+      const key = `${chunk.sessionId}:${chunk.groupId}`
+      const recording = recordings.get(key) ?? {
+        sessionId: chunk.sessionId,
+        groupId: chunk.groupId,
+        chunkCount: 0,
+        sizeBytes: 0,
+        durationMs: 0,
+        startedAt: chunk.capturedAt,
+      }
+      recording.chunkCount += 1
+      recording.sizeBytes += chunk.data.size
+      recording.durationMs += chunk.durationMs ?? 0
+      recording.startedAt = Math.min(recording.startedAt, chunk.capturedAt)
+      recordings.set(key, recording)
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function removeChunk(
+  chunk: Pick<BufferedAudioChunk, 'sessionId' | 'groupId' | 'sequence'>,
+): Promise<void> {
+  const key: ChunkKey = [chunk.sessionId, chunk.groupId, chunk.sequence]
+  await runTransaction('readwrite', (store) => store.delete(key))
+}
+
+async function removeChunks(
+  sessionId: string,
+  groupId: string,
+  sequences: number[],
+): Promise<void> {
+  const db = await openDatabase()
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(CHUNK_STORE, 'readwrite')
+    const store = tx.objectStore(CHUNK_STORE)
+    sequences.forEach((sequence) => store.delete([sessionId, groupId, sequence]))
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export const audioChunkStore = {
+  isSupported,
+  putChunk,
+  listChunks,
+  listRecordings,
+  countChunks,
+  getLastSequence,
+  removeChunk,
+  removeChunks,
+}
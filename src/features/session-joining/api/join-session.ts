@@ -10,8 +10,9 @@ export interface JoinSessionRequest {
 export interface JoinSessionResponse {
   token: string
   student: { id: string; displayName: string }
-  session: { id: string }
+  session: { id: string; title?: string; status?: string }
   group?: { id: string; name: string } | null
+  expiresAt?: string
 }
 
 export async function joinSession(
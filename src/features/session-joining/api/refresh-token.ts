@@ -0,0 +1,19 @@
+import { apiClient } from '@/lib/api-client'
+
+export interface RefreshStudentTokenResponse {
+  token: string
+  expiresAt?: string
+}
+
+// Sent with the token explicitly; the interceptor leaves out tokens that have already expired
+export async function refreshStudentToken(
+  sessionId: string,
+  token: string,
+): Promise<RefreshStudentTokenResponse> {
+  const resp = await apiClient.post<RefreshStudentTokenResponse>(
+    `/sessions/${sessionId}/students/token/refresh`,
+    undefined,
+    { headers: { Authorization: `Bearer ${token}` } },
+  )
+  return resp.data
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect } from 'react'
+import { useAuthStore } from '@/stores/auth-store'
+import { useTokenRefresh, type RefreshedToken } from '@/hooks/use-token-refresh'
+import { registerExpiryPrompt } from '@/lib/auth-events'
+import { resolveTokenExpiry } from '@/lib/token-expiry'
+import { useSocketService } from '@/components/providers/socket-provider'
+import { refreshStudentToken } from '../api/refresh-token'
+
+/**
+ * Keeps the student JWT fresh for long class periods. The socket is handed the
+ * new token in place, so an active audio stream is never torn down for it.
+ * Once it can't be refreshed the status turns `expired` and the page asks the
+ * student to sign in again; a 401 from the server does the same.
+ */
+export function useStudentTokenRefresh() {
+  const socket = useSocketService()
+  const credentials = useAuthStore((state) => state.credentials)
+  const setToken = useAuthStore((state) => state.setToken)
+  // Kiosk tokens are refreshed app-wide by useKioskTokenRefresh
+  const sessionId = credentials?.mode === 'student' ? credentials.sessionId : undefined
+
+  const refresh = useCallback(async (): Promise<RefreshedToken> => {
+    const current = useAuthStore.getState().credentials
+    if (!sessionId || current?.mode !== 'student') throw new Error('Not signed in')
+    const response = await refreshStudentToken(sessionId, current.token)
+    return {
+      token: response.token,
+      expiresAt: resolveTokenExpiry(response.token, response.expiresAt),
+    }
+  }, [sessionId])
+
+  const onRefreshed = useCallback(({ token, expiresAt }: RefreshedToken) => {
+    setToken(token, expiresAt)
+    socket.reauthenticate(token)
+  }, [setToken, socket])
+
+  const tokenRefresh = useTokenRefresh({
+    expiresAt: sessionId ? credentials?.expiresAt ?? null : null,
+    refresh,
+    onRefreshed,
+  })
+
+  const { markExpired } = tokenRefresh
+  useEffect(() => {
+    if (!sessionId) return
+    return registerExpiryPrompt(markExpired)
+  }, [sessionId, markExpired])
+
+  return tokenRefresh
+}
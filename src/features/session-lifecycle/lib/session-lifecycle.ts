@@ -0,0 +1,41 @@
+export type SessionStatus = 'created' | 'waiting' | 'active' | 'paused' | 'ended'
+
+export const SESSION_STATUSES: readonly SessionStatus[] = [
+  'created',
+  'waiting',
+  'active',
+  'paused',
+  'ended',
+]
+
+// `ended` is terminal; a session never goes back to the lobby once it has started
+const TRANSITIONS: Record<SessionStatus, readonly SessionStatus[]> = {
+  created: ['waiting', 'active', 'ended'],
+  waiting: ['active', 'ended'],
+  active: ['paused', 'ended'],
+  paused: ['active', 'ended'],
+  ended: [],
+}
+
+export function isSessionStatus(value: unknown): value is SessionStatus {
+  return typeof value === 'string' && (SESSION_STATUSES as readonly string[]).includes(value)
+}
+
+/** Narrows a status string from the server, using `fallback` for anything unknown. */
+export function parseSessionStatus(value: unknown, fallback: SessionStatus): SessionStatus {
+  return isSessionStatus(value) ? value : fallback
+}
+
+export function canTransitionSession(from: SessionStatus, to: SessionStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+/** Returns the status after applying `incoming`, ignoring out-of-order or unknown updates. */
+export function nextSessionStatus(current: SessionStatus, incoming: unknown): SessionStatus {
+  if (!isSessionStatus(incoming) || !canTransitionSession(current, incoming)) return current
+  return incoming
+}
+
+export function isSessionLive(status: SessionStatus): boolean {
+  return status === 'active' || status === 'paused'
+}
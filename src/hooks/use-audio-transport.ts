@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  HttpAudioTransport,
+  createWebSocketAudioTransport,
+  type AudioTransport,
+  type AudioTransportKind,
+} from '@/lib/audio-transport';
+import { createLogger } from '@/lib/logger';
+import type { AudioStreamFormat } from '@/lib/websocket';
+import { useSocketService } from '@/components/providers/socket-provider';
+
+const log = createLogger('audio');
+
+const CHECK_INTERVAL_MS = 5000;
+// Fall back after the socket has been unable to connect for this long
+const CONNECT_GRACE_MS = 15000;
+// ...or when a chunk on an open socket has waited this long for its ack
+const ACK_STALL_MS = 10000;
+// Stay on HTTP at least this long before trying the socket again
+const HTTP_MIN_DWELL_MS = 60000;
+
+/**
+ * Picks the WebSocket or HTTP audio transport and hides the switch from callers:
+ * the returned transport is stable and reopens the current stream on whichever
+ * transport takes over.
+ */
+export function useAudioTransport(isConnected: boolean) {
+  const socket = useSocketService();
+  const [kind, setKind] = useState<AudioTransportKind>('websocket');
+  const socketTransport = useMemo(() => createWebSocketAudioTransport(socket), [socket]);
+  const httpTransport = useMemo(() => new HttpAudioTransport(), []);
+
+  const currentRef = useRef<AudioTransport>(socketTransport);
+  const openStreamRef = useRef<{ groupId: string; format: AudioStreamFormat } | null>(null);
+  const disconnectedSinceRef = useRef<number | null>(isConnected ? null : Date.now());
+  const switchedAtRef = useRef(0);
+  const [isOnline, setIsOnline] = useState(
+    () => typeof navigator === 'undefined' || navigator.onLine,
+  );
+
+  useEffect(() => {
+    disconnectedSinceRef.current = isConnected ? null : disconnectedSinceRef.current ?? Date.now();
+  }, [isConnected]);
+
+  // HTTP uploads only need the network, so readiness follows the browser's online state
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    const switchTo = (next: AudioTransportKind) => {
+      const previous = currentRef.current;
+      const target = next === 'http' ? httpTransport : socketTransport;
+      if (previous === target) return;
+      log.warn(`Switching audio transport: ${previous.kind} -> ${target.kind}`);
+
+      // Chunks waiting on socket acks are resent by their owner over the new transport
+      if (previous.kind === 'websocket') socket.abandonUnackedChunks();
+      const openStream = openStreamRef.current;
+      if (openStream) {
+        previous.endStream(openStream.groupId);
+        target.startStream(openStream.groupId, openStream.format);
+      }
+      currentRef.current = target;
+      switchedAtRef.current = Date.now();
+      setKind(next);
+    };
+
+    const check = () => {
+      const now = Date.now();
+      if (currentRef.current.kind === 'websocket') {
+        const since = disconnectedSinceRef.current;
+        const cannotConnect = !socket.isConnected() && since !== null && now - since > CONNECT_GRACE_MS;
+        const acksStalled = socket.isConnected() && socket.getAckStallMs() > ACK_STALL_MS;
+        if (cannotConnect || acksStalled) switchTo('http');
+      } else if (socket.isConnected() && now - switchedAtRef.current > HTTP_MIN_DWELL_MS) {
+        switchTo('websocket');
+      }
+    };
+
+    const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [httpTransport, socket, socketTransport]);
+
+  const transport = useMemo<AudioTransport>(
+    () => ({
+      get kind() {
+        return currentRef.current.kind;
+      },
+      get maxInFlight() {
+        return currentRef.current.maxInFlight;
+      },
+      isReady: () => currentRef.current.isReady(),
+      startStream: (groupId, format) => {
+        openStreamRef.current = { groupId, format };
+        currentRef.current.startStream(groupId, format);
+      },
+      sendChunk: (groupId, audioData, mimeType, timestamp, chunkId) =>
+        currentRef.current.sendChunk(groupId, audioData, mimeType, timestamp, chunkId),
+      endStream: (groupId) => {
+        openStreamRef.current = null;
+        currentRef.current.endStream(groupId);
+      },
+      pauseStream: (groupId) => currentRef.current.pauseStream(groupId),
+      resumeStream: (groupId) => currentRef.current.resumeStream(groupId),
+      startPrivacyPause: (groupId) => currentRef.current.startPrivacyPause(groupId),
+      endPrivacyPause: (groupId) => currentRef.current.endPrivacyPause(groupId),
+      reportError: (groupId, error) => currentRef.current.reportError(groupId, error),
+    }),
+    [],
+  );
+
+  return {
+    transport,
+    kind,
+    // Whether buffered audio can be sent right now over the active transport
+    isReady: kind === 'http' ? isOnline : isConnected,
+  };
+}
@@ -0,0 +1,91 @@
+import { useEffect } from 'react';
+import { GroupJoinedData, WebSocketProtocolError } from '@/lib/websocket';
+import { useAuthStore } from '@/stores/auth-store';
+import { useStudentStore } from '@/stores/student-store';
+import { nextSessionStatus } from '@/features/session-lifecycle/lib/session-lifecycle';
+import { createLogger } from '@/lib/logger';
+import { useSocketService } from '@/components/providers/socket-provider';
+
+const log = createLogger('socket');
+
+/**
+ * Owns the socket for the signed-in session and keeps the student store in step
+ * with it. Mounted once above the pages, so moving from the lobby to the session
+ * keeps the rooms, the outbound queue and unacked audio; only signing in or out
+ * (or into another session) reconnects. Refreshed tokens are handed to the live
+ * socket instead.
+ */
+export function useSessionSocket() {
+  const socket = useSocketService();
+  const { setConnected, setGroup, setSession } = useStudentStore();
+  // Student or kiosk, whoever is signed in
+  const hasToken = useAuthStore((state) => state.credentials !== null);
+  const sessionId = useAuthStore((state) => state.credentials?.sessionId);
+  const currentToken = useAuthStore((state) => state.credentials?.token);
+
+  useEffect(() => {
+    const token = useAuthStore.getState().credentials?.token;
+    if (!token || !sessionId) {
+      log.debug('No token or session, skipping connection');
+      return;
+    }
+
+    log.debug('Connecting', { sessionId });
+
+    socket.connect(token, {
+      onConnect: () => {
+        setConnected(true);
+
+        // Join the session room
+        socket.joinSession(sessionId);
+      },
+
+      onDisconnect: () => {
+        setConnected(false);
+      },
+
+      onError: (error) => {
+        // A single bad payload from the server doesn't mean the connection is gone
+        if (error instanceof WebSocketProtocolError) return;
+        log.error('Connection failed', error);
+        setConnected(false);
+      },
+
+      onSessionJoined: (data) => {
+        log.info('Joined session', data);
+        const current = useStudentStore.getState().session;
+        if (current && current.id === data.sessionId && data.status) {
+          setSession({ ...current, status: nextSessionStatus(current.status, data.status) });
+        }
+      },
+
+      onSessionStatusChanged: (data) => {
+        // Keep the persisted session in step so pages can gate on its status
+        const current = useStudentStore.getState().session;
+        if (!current || current.id !== data.sessionId) return;
+        const status = nextSessionStatus(current.status, data.status);
+        if (status === current.status) return;
+        setSession({ ...current, status });
+      },
+
+      onGroupJoined: (data: GroupJoinedData) => {
+        setGroup({
+          id: data.groupId,
+          name: data.groupName ?? data.groupInfo?.name ?? 'Group',
+          members: []
+        });
+      },
+    });
+
+    return () => {
+      socket.leaveSession(sessionId);
+      socket.disconnect();
+      setConnected(false);
+    };
+  }, [socket, hasToken, sessionId, setConnected, setGroup, setSession]);
+
+  // A new token for the same sign-in (a refresh, or signing in again) goes to the live socket
+  useEffect(() => {
+    if (currentToken) socket.reauthenticate(currentToken);
+  }, [socket, currentToken]);
+}
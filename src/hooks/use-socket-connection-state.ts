@@ -0,0 +1,19 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { ConnectionStats } from '@/lib/connection-quality';
+import { useSocketService } from '@/components/providers/socket-provider';
+
+interface SocketConnectionState {
+  isConnected: boolean;
+  // Null until the first heartbeat settles, and while disconnected
+  connectionStats: ConnectionStats | null;
+}
+
+/** Connection state of the provided socket service; re-renders whenever it changes. */
+export function useSocketConnectionState(): SocketConnectionState {
+  const socket = useSocketService();
+  const subscribe = useCallback((onChange: () => void) => socket.onConnectionChange(onChange), [socket]);
+
+  const isConnected = useSyncExternalStore(subscribe, () => socket.isConnected(), () => false);
+  const connectionStats = useSyncExternalStore(subscribe, () => socket.getConnectionQuality(), () => null);
+  return { isConnected, connectionStats };
+}
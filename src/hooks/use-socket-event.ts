@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+import type { SocketEventHandler } from '@/lib/websocket';
+import type { InboundEventName } from '@/lib/websocket-events';
+import { useSocketService } from '@/components/providers/socket-provider';
+
+/**
+ * Calls `handler` for every `event` the server sends while the component is
+ * mounted. The connection itself stays with `useSessionSocket`; the handler may be
+ * an inline function, only a change of `event` (or of the provided service)
+ * resubscribes.
+ */
+export function useSocketEvent<E extends InboundEventName>(event: E, handler: SocketEventHandler<E>) {
+  const socket = useSocketService();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => socket.on(event, (data) => handlerRef.current(data)), [socket, event]);
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { msUntilRefresh } from '@/lib/token-expiry';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('auth');
+
+export type TokenRefreshStatus = 'idle' | 'refreshing' | 'expired';
+
+export interface RefreshedToken {
+  token: string;
+  expiresAt: number | null;
+}
+
+interface UseTokenRefreshOptions {
+  // Epoch milliseconds; refresh is not scheduled while this is null
+  expiresAt: number | null;
+  refresh: () => Promise<RefreshedToken>;
+  onRefreshed: (refreshed: RefreshedToken) => void;
+}
+
+const RETRY_DELAY_MS = 15000;
+
+/**
+ * Refreshes a token shortly before it expires and keeps retrying until the
+ * old one actually runs out, at which point the status becomes `expired`.
+ */
+export function useTokenRefresh({ expiresAt, refresh, onRefreshed }: UseTokenRefreshOptions) {
+  const [status, setStatus] = useState<TokenRefreshStatus>('idle');
+  const refreshRef = useRef(refresh);
+  const onRefreshedRef = useRef(onRefreshed);
+  refreshRef.current = refresh;
+  onRefreshedRef.current = onRefreshed;
+
+  const refreshNow = useCallback(async () => {
+    setStatus('refreshing');
+    try {
+      const refreshed = await refreshRef.current();
+      setStatus('idle');
+      onRefreshedRef.current(refreshed);
+      return true;
+    } catch (err) {
+      log.warn('Token refresh failed', err);
+      setStatus((current) => (current === 'expired' ? current : 'idle'));
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    const attempt = async () => {
+      if (await refreshNow()) return;
+      if (cancelled) return;
+      if (Date.now() >= expiresAt) {
+        setStatus('expired');
+        return;
+      }
+      timer = window.setTimeout(attempt, Math.min(RETRY_DELAY_MS, expiresAt - Date.now()));
+    };
+
+    if (Date.now() >= expiresAt) {
+      setStatus('expired');
+    } else {
+      setStatus('idle');
+      timer = window.setTimeout(attempt, msUntilRefresh(expiresAt));
+    }
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [expiresAt, refreshNow]);
+
+  // For when the server rejects the token before the local clock says it expired
+  const markExpired = useCallback(() => setStatus('expired'), []);
+
+  return { status, refreshNow, markExpired };
+}
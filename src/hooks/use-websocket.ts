@@ -1,97 +1,73 @@
-import { useEffect, useCallback } from 'react';
-import { websocketService, GroupJoinedData } from '@/lib/websocket';
+import { useEffect, useCallback, useRef } from 'react';
 import { useStudentStore } from '@/stores/student-store';
+import type { SessionStatus } from '@/features/session-lifecycle/lib/session-lifecycle';
+import { useSocketService } from '@/components/providers/socket-provider';
+import { useSocketConnectionState } from './use-socket-connection-state';
+import { useSocketEvent } from './use-socket-event';
 
 interface UseWebSocketOptions {
-  onSessionStatusChanged?: (status: string) => void;
+  onSessionStatusChanged?: (status: SessionStatus) => void;
   onGroupAssigned?: (group: { id: string; name: string }) => void;
-  onTranscription?: (data: unknown) => void;
-  onInsight?: (data: unknown) => void;
+  // Teacher started or stopped capture for this device's group
+  onGroupRecording?: (isRecording: boolean) => void;
 }
 
+/**
+ * A page's view of the session socket. The connection itself is held by
+ * `SessionSocket` in the layout, so mounting and unmounting pages never drops
+ * it. Callbacks may be inline: they are read when events arrive. Components
+ * that only listen should use `useSocketEvent` instead.
+ */
 export function useWebSocket(options: UseWebSocketOptions = {}) {
-  const { token, session, setConnected, setGroup } = useStudentStore();
+  const socket = useSocketService();
+  const { isConnected, connectionStats } = useSocketConnectionState();
+  const optionsRef = useRef(options);
 
-  // Handle connection
   useEffect(() => {
-    if (!token || !session) {
-      console.log('No token or session, skipping WebSocket connection');
-      return;
-    }
+    optionsRef.current = options;
+  });
 
-    console.log('Connecting to WebSocket...');
+  useSocketEvent('group:recording', (data) => {
+    const currentGroup = useStudentStore.getState().group;
+    if (currentGroup && currentGroup.id !== data.groupId) return;
+    optionsRef.current.onGroupRecording?.(data.isRecording);
+  });
 
-    websocketService.connect(token, {
-      onConnect: () => {
-        console.log('WebSocket connected successfully');
-        setConnected(true);
-        
-        // Join the session room
-        if (session?.id) {
-          websocketService.joinSession(session.id);
-        }
-      },
-      
-      onDisconnect: (reason) => {
-        console.log('WebSocket disconnected:', reason);
-        setConnected(false);
-      },
-      
-      onError: (error) => {
-        console.error('WebSocket error:', error);
-        setConnected(false);
-      },
-      
-      onSessionJoined: (data) => {
-        console.log('Successfully joined session:', data);
-      },
-      
-      onSessionStatusChanged: (data) => {
-        options.onSessionStatusChanged?.((data as { status: string }).status);
-      },
-      
-      onGroupJoined: (data: GroupJoinedData) => {
-        setGroup({
-          id: data.groupId,
-          name: data.groupName ?? data.groupInfo?.name ?? 'Group',
-          members: []
-        });
-        options.onGroupAssigned?.({ id: data.groupId, name: data.groupName ?? data.groupInfo?.name ?? 'Group' });
-      },
-      
-      // Support both naming conventions
-      onGroupTranscriptionReceived: options.onTranscription,
-      onGroupInsightReceived: options.onInsight,
-    });
+  useSocketEvent('group:joined', (data) => {
+    optionsRef.current.onGroupAssigned?.({ id: data.groupId, name: data.groupName ?? data.groupInfo?.name ?? 'Group' });
+  });
 
-    // Cleanup on unmount
-    return () => {
-      if (session?.id) {
-        websocketService.leaveSession(session.id);
-      }
-      websocketService.disconnect();
-      setConnected(false);
-    };
-    // Include relevant deps to satisfy lint without over-subscribing
-  }, [token, session, setConnected, setGroup, options]);
+  // The connection keeps the stored session in step; report its status changes
+  useEffect(
+    () =>
+      useStudentStore.subscribe((state, previous) => {
+        const status = state.session?.status;
+        if (!status || state.session?.id !== previous.session?.id) return;
+        if (status === previous.session?.status) return;
+        optionsRef.current.onSessionStatusChanged?.(status);
+      }),
+    [],
+  );
 
   // Mute/unmute functions
   const updateMuteStatus = useCallback((isMuted: boolean) => {
-    websocketService.updateMuteStatus(isMuted);
-  }, []);
+    socket.updateMuteStatus(isMuted);
+  }, [socket]);
 
   const startSpeaking = useCallback(() => {
-    websocketService.startSpeaking();
-  }, []);
+    socket.startSpeaking();
+  }, [socket]);
 
   const stopSpeaking = useCallback(() => {
-    websocketService.stopSpeaking();
-  }, []);
+    socket.stopSpeaking();
+  }, [socket]);
 
   return {
-    isConnected: websocketService.isConnected(),
+    isConnected,
+    // Null until the first heartbeat settles, and while disconnected
+    connectionStats,
     updateMuteStatus,
     startSpeaking,
     stopSpeaking,
   };
-}
\ No newline at end of file
+}
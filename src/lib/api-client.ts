@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { emitAuthExpired } from './auth-events';
+import { getAccessToken } from '@/stores/auth-store';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api/v1';
 
@@ -10,23 +12,22 @@ export const apiClient = axios.create({
   withCredentials: true,
 });
 
-// Add group access token to requests if available
+// Add the student or kiosk token to requests if signed in, unless the caller set its own
 apiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('group_access_token');
-  if (token) {
+  const token = getAccessToken();
+  if (token && !config.headers.Authorization) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
-// Handle auth errors
+// Auth errors are only announced; the app decides whether to refresh or sign out,
+// so a 401 mid-recording never navigates away on its own
 apiClient.interceptors.response.use(
   (response) => response,
   (error) => {
     if (error.response?.status === 401) {
-      localStorage.removeItem('group_access_token');
-      localStorage.removeItem('groupInfo');
-      window.location.href = '/';
+      emitAuthExpired({ reason: 'unauthorized', url: error.config?.url });
     }
     return Promise.reject(error);
   }
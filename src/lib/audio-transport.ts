@@ -0,0 +1,154 @@
+import { apiClient } from './api-client';
+import {
+  MAX_UNACKED_AUDIO_CHUNKS,
+  createStreamId,
+  type AudioStreamFormat,
+  type GroupKioskWebSocketService,
+} from './websocket';
+import { createLogger } from './logger';
+
+const log = createLogger('audio');
+
+export type AudioTransportKind = 'websocket' | 'http';
+
+/** What the recorder needs from whatever carries audio to the server. */
+export interface AudioTransport {
+  readonly kind: AudioTransportKind;
+  // How many chunks may be waiting for the server at once
+  readonly maxInFlight: number;
+  isReady(): boolean;
+  startStream(groupId: string, format: AudioStreamFormat): void;
+  // Resolves once the server has the chunk. A resend under the same `chunkId`
+  // keeps the chunk's original stream and sequence
+  sendChunk(
+    groupId: string,
+    audioData: ArrayBuffer,
+    mimeType: string,
+    timestamp: number,
+    chunkId?: string,
+  ): Promise<void>;
+  endStream(groupId: string): void;
+  // Markers on the open stream, so the server can place gaps and failures in the timeline
+  pauseStream(groupId: string): void;
+  resumeStream(groupId: string): void;
+  startPrivacyPause(groupId: string): void;
+  endPrivacyPause(groupId: string): void;
+  reportError(groupId: string, error: string): void;
+}
+
+export function createWebSocketAudioTransport(service: GroupKioskWebSocketService): AudioTransport {
+  return {
+    kind: 'websocket',
+    // More would evict chunks from the service's retransmit window
+    maxInFlight: MAX_UNACKED_AUDIO_CHUNKS,
+    isReady: () => service.isConnected(),
+    startStream: (groupId, format) => service.startAudioStream(groupId, format),
+    sendChunk: (groupId, audioData, mimeType, timestamp, chunkId) =>
+      service.sendAudioChunk(groupId, audioData, mimeType, timestamp, chunkId),
+    endStream: (groupId) => service.endAudioStream(groupId),
+    pauseStream: (groupId) => service.pauseAudioStream(groupId),
+    resumeStream: (groupId) => service.resumeAudioStream(groupId),
+    startPrivacyPause: (groupId) => service.startPrivacyPause(groupId),
+    endPrivacyPause: (groupId) => service.endPrivacyPause(groupId),
+    reportError: (groupId, error) => service.reportAudioError(groupId, error),
+  };
+}
+
+/**
+ * POSTs each chunk with the same metadata as `audio:chunk`, for networks whose
+ * proxies break WebSocket upgrades. A 2xx response is the acknowledgement.
+ * Stream markers go to a single events endpoint, typed by their socket event name.
+ */
+export class HttpAudioTransport implements AudioTransport {
+  readonly kind = 'http' as const;
+  // Parallel uploads; the rest wait in the caller's buffer
+  readonly maxInFlight = 4;
+  private stream: { groupId: string; streamId: string; nextSequence: number } | null = null;
+  private format: AudioStreamFormat | null = null;
+  // Stream position first given to each named chunk, until an upload succeeds
+  private chunkPositions = new Map<string, { streamId: string; sequence: number }>();
+
+  isReady(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine;
+  }
+
+  startStream(groupId: string, format: AudioStreamFormat) {
+    this.format = format;
+    this.stream = { groupId, streamId: createStreamId(), nextSequence: 0 };
+  }
+
+  async sendChunk(
+    groupId: string,
+    audioData: ArrayBuffer,
+    mimeType: string,
+    timestamp: number,
+    chunkId?: string,
+  ) {
+    let position = chunkId ? this.chunkPositions.get(chunkId) : undefined;
+    if (!position) {
+      if (!this.stream || this.stream.groupId !== groupId) {
+        this.stream = { groupId, streamId: createStreamId(), nextSequence: 0 };
+      }
+      position = { streamId: this.stream.streamId, sequence: this.stream.nextSequence++ };
+      if (chunkId) this.chunkPositions.set(chunkId, position);
+    }
+    const metadata = {
+      groupId,
+      ...position,
+      format: mimeType,
+      sampleRate: this.format?.sampleRate,
+      timestamp,
+    };
+
+    const form = new FormData();
+    form.append('metadata', JSON.stringify(metadata));
+    form.append('audio', new Blob([audioData], { type: mimeType }), `chunk-${metadata.sequence}`);
+
+    // apiClient attaches the token of whoever is signed in, student or kiosk
+    await apiClient.post(`/groups/${groupId}/audio/chunks`, form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    if (chunkId) this.chunkPositions.delete(chunkId);
+  }
+
+  endStream(groupId: string) {
+    if (!this.stream || this.stream.groupId !== groupId) return;
+    const { streamId } = this.stream;
+    this.stream = null;
+    apiClient
+      .post(`/groups/${groupId}/audio/streams/${streamId}/end`)
+      .catch((error) => log.warn('Failed to end HTTP audio stream', error));
+  }
+
+  pauseStream(groupId: string) {
+    this.postMarker(groupId, 'audio:stream:pause');
+  }
+
+  resumeStream(groupId: string) {
+    this.postMarker(groupId, 'audio:stream:resume');
+  }
+
+  startPrivacyPause(groupId: string) {
+    this.postMarker(groupId, 'audio:privacy:start');
+  }
+
+  endPrivacyPause(groupId: string) {
+    this.postMarker(groupId, 'audio:privacy:end');
+  }
+
+  reportError(groupId: string, error: string) {
+    this.postMarker(groupId, 'audio:error', { error });
+  }
+
+  private postMarker(groupId: string, type: string, details: Record<string, unknown> = {}) {
+    const streamId = this.stream?.groupId === groupId ? this.stream.streamId : undefined;
+    apiClient
+      .post(`/groups/${groupId}/audio/events`, {
+        type,
+        streamId,
+        timestamp: Date.now(),
+        ...details,
+      })
+      .catch((error) => log.warn(`Failed to send ${type} over HTTP`, error));
+  }
+}
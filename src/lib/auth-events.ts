@@ -0,0 +1,63 @@
+export type AuthExpiredReason = 'unauthorized';
+
+export interface AuthExpiredEvent {
+  reason: AuthExpiredReason;
+  // Request that was rejected, for logging
+  url?: string;
+}
+
+type AuthExpiredListener = (event: AuthExpiredEvent) => void;
+type SignOutTask = () => Promise<void> | void;
+type ExpiryPrompt = () => void;
+
+const listeners = new Set<AuthExpiredListener>();
+const signOutTasks = new Set<SignOutTask>();
+const expiryPrompts = new Set<ExpiryPrompt>();
+
+export const SIGNED_OUT_MESSAGES: Record<AuthExpiredReason, string> = {
+  unauthorized: 'You were signed out. Audio recorded on this device was saved. Please join again.',
+};
+
+export function isAuthExpiredReason(value: unknown): value is AuthExpiredReason {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SIGNED_OUT_MESSAGES, value);
+}
+
+export function onAuthExpired(listener: AuthExpiredListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitAuthExpired(event: AuthExpiredEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+/** Work that must finish before credentials are cleared, such as saving the recording. */
+export function registerSignOutTask(task: SignOutTask): () => void {
+  signOutTasks.add(task);
+  return () => {
+    signOutTasks.delete(task);
+  };
+}
+
+export async function runSignOutTasks() {
+  await Promise.allSettled(Array.from(signOutTasks, (task) => Promise.resolve().then(task)));
+}
+
+/**
+ * A page that asks the user to sign in again itself, keeping them (and whatever
+ * is still uploading) in place instead of being signed out.
+ */
+export function registerExpiryPrompt(prompt: ExpiryPrompt): () => void {
+  expiryPrompts.add(prompt);
+  return () => {
+    expiryPrompts.delete(prompt);
+  };
+}
+
+/** Shows every registered prompt; false when no page can handle the expiry itself. */
+export function showExpiryPrompts(): boolean {
+  expiryPrompts.forEach((prompt) => prompt());
+  return expiryPrompts.size > 0;
+}
@@ -0,0 +1,49 @@
+export type ConnectionQuality = 'good' | 'degraded' | 'poor';
+
+export interface ConnectionStats {
+  // Mean round trip over the recent window, in ms
+  latencyMs: number | null;
+  // Mean absolute difference between consecutive round trips, in ms
+  jitterMs: number | null;
+  // Consecutive heartbeats that got no pong in time
+  missedBeats: number;
+  quality: ConnectionQuality;
+}
+
+const GOOD_LATENCY_MS = 150;
+const POOR_LATENCY_MS = 400;
+const GOOD_JITTER_MS = 50;
+const POOR_JITTER_MS = 150;
+const POOR_MISSED_BEATS = 2;
+
+export function rateConnection(
+  latencyMs: number | null,
+  jitterMs: number | null,
+  missedBeats: number,
+): ConnectionQuality {
+  if (missedBeats >= POOR_MISSED_BEATS) return 'poor';
+  if (latencyMs === null) return missedBeats > 0 ? 'poor' : 'degraded';
+  if (latencyMs > POOR_LATENCY_MS || (jitterMs ?? 0) > POOR_JITTER_MS) return 'poor';
+  if (missedBeats > 0 || latencyMs > GOOD_LATENCY_MS || (jitterMs ?? 0) > GOOD_JITTER_MS) {
+    return 'degraded';
+  }
+  return 'good';
+}
+
+/** Summarizes recent round-trip samples (oldest first) into latency, jitter and a rating. */
+export function summarizeHeartbeats(roundTrips: number[], missedBeats: number): ConnectionStats {
+  const latencyMs = roundTrips.length
+    ? Math.round(roundTrips.reduce((sum, rtt) => sum + rtt, 0) / roundTrips.length)
+    : null;
+
+  let jitterMs: number | null = null;
+  if (roundTrips.length > 1) {
+    let total = 0;
+    for (let i = 1; i < roundTrips.length; i++) {
+      total += Math.abs(roundTrips[i] - roundTrips[i - 1]);
+    }
+    jitterMs = Math.round(total / (roundTrips.length - 1));
+  }
+
+  return { latencyMs, jitterMs, missedBeats, quality: rateConnection(latencyMs, jitterMs, missedBeats) };
+}
@@ -0,0 +1,180 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogCategory = 'socket' | 'audio' | 'session' | 'auth' | 'sync' | 'app';
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  data?: unknown;
+}
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+export interface DiagnosticBundle {
+  generatedAt: string;
+  environment: {
+    userAgent?: string;
+    online?: boolean;
+    // Path only: query strings can carry join codes
+    path?: string;
+  };
+  context: unknown;
+  entries: LogEntry[];
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Student speech, names and credentials never reach the console or the ring buffer
+const REDACTED_KEYS = new Set([
+  'text',
+  'transcript',
+  'message',
+  'name',
+  'studentname',
+  'groupname',
+  'displayname',
+  'email',
+  'token',
+  'accesstoken',
+  'access_token',
+  'refreshtoken',
+  'authorization',
+  'password',
+  'audiodata',
+]);
+
+const MAX_ENTRIES = 500;
+const MAX_DEPTH = 4;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_STRING_LENGTH = 200;
+
+const entries: LogEntry[] = [];
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEVEL_ORDER, value);
+}
+
+let consoleLevel: LogLevel = isLogLevel(process.env.NEXT_PUBLIC_LOG_LEVEL)
+  ? process.env.NEXT_PUBLIC_LOG_LEVEL
+  : process.env.NODE_ENV === 'development'
+    ? 'debug'
+    : 'warn';
+
+/** Lowest level echoed to the console. The ring buffer records every level regardless. */
+export function setConsoleLevel(level: LogLevel) {
+  consoleLevel = level;
+}
+
+function describeBinary(value: ArrayBuffer | ArrayBufferView | Blob): string {
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return `[Blob ${value.size} bytes]`;
+  }
+  return `[${value.constructor.name} ${(value as ArrayBuffer).byteLength} bytes]`;
+}
+
+/** Copies `value` with sensitive fields masked, binary data summarised and size bounded. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (typeof value !== 'object') return value;
+
+  if (value instanceof Error) {
+    // Our own error messages describe what failed, not what was said
+    return { name: value.name, message: value.message };
+  }
+  if (
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    (typeof Blob !== 'undefined' && value instanceof Blob)
+  ) {
+    return describeBinary(value as ArrayBuffer | ArrayBufferView | Blob);
+  }
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => redact(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) {
+      items.push(`[${value.length - MAX_ARRAY_ITEMS} more]`);
+    }
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, field]) => {
+    if (REDACTED_KEYS.has(key.toLowerCase()) && field !== null && field !== undefined) {
+      result[key] = typeof field === 'string' ? `[redacted ${field.length} chars]` : '[redacted]';
+      return;
+    }
+    result[key] = redact(field, depth + 1);
+  });
+  return result;
+}
+
+function record(level: LogLevel, category: LogCategory, message: string, data?: unknown) {
+  const entry: LogEntry = { time: new Date().toISOString(), level, category, message };
+  if (data !== undefined) {
+    entry.data = redact(data);
+  }
+
+  entries.push(entry);
+  if (entries.length > MAX_ENTRIES) {
+    entries.shift();
+  }
+
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[consoleLevel]) return;
+  const args = entry.data === undefined ? [] : [entry.data];
+  console[level](`[${category}] ${message}`, ...args);
+}
+
+export function createLogger(category: LogCategory): Logger {
+  return {
+    debug: (message, data) => record('debug', category, message, data),
+    info: (message, data) => record('info', category, message, data),
+    warn: (message, data) => record('warn', category, message, data),
+    error: (message, data) => record('error', category, message, data),
+  };
+}
+
+/** Oldest first. Entries are already redacted. */
+export function getLogEntries(): LogEntry[] {
+  return entries.slice();
+}
+
+export function clearLogEntries() {
+  entries.length = 0;
+}
+
+/** Everything support needs from this device; `context` is redacted like log data. */
+export function buildDiagnosticBundle(context: Record<string, unknown> = {}): DiagnosticBundle {
+  return {
+    generatedAt: new Date().toISOString(),
+    environment: {
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      online: typeof navigator !== 'undefined' ? navigator.onLine : undefined,
+      path: typeof window !== 'undefined' ? window.location.pathname : undefined,
+    },
+    context: redact(context),
+    entries: getLogEntries(),
+  };
+}
+
+export function downloadDiagnosticBundle(context: Record<string, unknown> = {}) {
+  const bundle = buildDiagnosticBundle(context);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `classwaves-diagnostics-${bundle.generatedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
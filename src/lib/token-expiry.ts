@@ -0,0 +1,29 @@
+// Refresh this long before the token actually expires
+export const TOKEN_REFRESH_LEAD_MS = 2 * 60 * 1000;
+
+/** Reads the `exp` claim (seconds) of a JWT as epoch milliseconds, without verifying it. */
+export function getJwtExpiry(token: string): number | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const { exp } = JSON.parse(json) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Prefers the server's `expiresAt`, falling back to the token's own claim. */
+export function resolveTokenExpiry(token: string, expiresAt?: string | null): number | null {
+  const parsed = expiresAt ? Date.parse(expiresAt) : NaN;
+  return Number.isNaN(parsed) ? getJwtExpiry(token) : parsed;
+}
+
+export function msUntilRefresh(
+  expiresAt: number,
+  now: number = Date.now(),
+  leadMs: number = TOKEN_REFRESH_LEAD_MS,
+): number {
+  return Math.max(0, expiresAt - leadMs - now);
+}
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+
+const groupRef = z.object({ groupId: z.string() });
+const streamMarker = z.object({
+  groupId: z.string(),
+  streamId: z.string().optional(),
+  timestamp: z.number(),
+});
+
+// Everything the server sends. Payloads are parsed before any handler sees them.
+export const inboundEventSchemas = {
+  // Status stays a plain string on the wire; the session lifecycle drops values it doesn't know
+  'session:status_changed': z.object({
+    sessionId: z.string(),
+    status: z.string(),
+  }),
+  'group:joined': z.object({
+    groupId: z.string(),
+    sessionId: z.string(),
+    groupInfo: z.object({ name: z.string().optional() }).optional(),
+    groupName: z.string().optional(),
+  }),
+  'group:ready': z.object({
+    groupId: z.string(),
+    sessionId: z.string(),
+  }),
+  'group:recording': z.object({
+    groupId: z.string(),
+    isRecording: z.boolean(),
+  }),
+  'group:status_changed': z.object({
+    groupId: z.string(),
+    status: z.enum(['waiting', 'ready', 'recording', 'error']),
+  }),
+  'transcription:group:new': z.object({
+    id: z.string(),
+    groupId: z.string(),
+    groupName: z.string(),
+    text: z.string(),
+    timestamp: z.string(),
+  }),
+  'insight:group:new': z.object({
+    groupId: z.string(),
+    insightType: z.enum([
+      'argumentation_quality',
+      'collaboration_patterns',
+      'conceptual_understanding',
+      'topical_focus',
+    ]),
+    message: z.string(),
+    severity: z.enum(['info', 'warning', 'success']),
+    timestamp: z.string(),
+  }),
+  'audio:stream:start': groupRef,
+  'audio:stream:end': groupRef,
+  'audio:error': z.object({
+    groupId: z.string(),
+    error: z.string(),
+  }),
+  'audio:chunk:ack': z.object({
+    streamId: z.string(),
+    sequence: z.number().int().nonnegative(),
+  }),
+  'heartbeat:pong': z.object({ id: z.string() }),
+};
+
+// Everything the client sends. These are built by the service itself, so they
+// are only type-checked, never parsed at runtime.
+export const outboundEventSchemas = {
+  'auth:refresh': z.object({ token: z.string() }),
+  'heartbeat:ping': z.object({ id: z.string(), sentAt: z.number() }),
+  'session:join': z.object({ sessionId: z.string() }),
+  'session:leave': z.object({ sessionId: z.string() }),
+  'group:join': z.object({ groupId: z.string(), sessionId: z.string() }),
+  'group:leave': groupRef,
+  'group:status_update': z.object({ groupId: z.string(), isReady: z.boolean() }),
+  'group:mute_status': z.object({
+    groupId: z.string(),
+    isMuted: z.boolean(),
+    timestamp: z.number(),
+  }),
+  'group:speaking:start': streamMarker,
+  'group:speaking:stop': streamMarker,
+  'audio:stream:start': z.object({
+    groupId: z.string(),
+    streamId: z.string(),
+    format: z.string().optional(),
+    sampleRate: z.number().optional(),
+  }),
+  'audio:chunk': z.object({
+    groupId: z.string(),
+    streamId: z.string(),
+    sequence: z.number().int().nonnegative(),
+    audioData: z.instanceof(ArrayBuffer),
+    format: z.string(),
+    timestamp: z.number(),
+  }),
+  'audio:stream:end': z.object({
+    groupId: z.string(),
+    streamId: z.string().optional(),
+  }),
+  'audio:stream:pause': streamMarker,
+  'audio:stream:resume': streamMarker,
+  'audio:privacy:start': streamMarker,
+  'audio:privacy:end': streamMarker,
+  'audio:error': streamMarker.extend({ error: z.string() }),
+};
+
+export type InboundEventName = keyof typeof inboundEventSchemas;
+export type InboundEventPayload<E extends InboundEventName> = z.infer<(typeof inboundEventSchemas)[E]>;
+
+export type OutboundEventName = keyof typeof outboundEventSchemas;
+export type OutboundEventPayload<E extends OutboundEventName> = z.infer<(typeof outboundEventSchemas)[E]>;
+
+/** Raised (through `onError`) when the server sends a payload that fails its schema. */
+export class WebSocketProtocolError extends Error {
+  constructor(
+    readonly event: string,
+    readonly issues: z.ZodIssue[],
+  ) {
+    super(`Malformed "${event}" payload: ${issues.map((issue) => `${issue.path.join('.') || '(root)'} ${issue.message}`).join('; ')}`);
+    this.name = 'WebSocketProtocolError';
+  }
+}
+
+export function parseInboundEvent<E extends InboundEventName>(
+  event: E,
+  data: unknown,
+): InboundEventPayload<E> {
+  const result = inboundEventSchemas[event].safeParse(data);
+  if (!result.success) {
+    throw new WebSocketProtocolError(event, result.error.issues);
+  }
+  return result.data as InboundEventPayload<E>;
+}
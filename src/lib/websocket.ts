@@ -1,35 +1,61 @@
-import { io, Socket } from 'socket.io-client';
-
-export interface SessionStatusChangedData {
-  status: string;
-  sessionId: string;
+import { io, type ManagerOptions, type SocketOptions } from 'socket.io-client';
+import {
+  parseInboundEvent,
+  type InboundEventName,
+  type InboundEventPayload,
+  type OutboundEventName,
+  type OutboundEventPayload,
+} from './websocket-events';
+import { summarizeHeartbeats, type ConnectionStats } from './connection-quality';
+import { createLogger } from './logger';
+
+export { WebSocketProtocolError } from './websocket-events';
+
+export type SessionStatusChangedData = InboundEventPayload<'session:status_changed'>;
+export type GroupJoinedData = InboundEventPayload<'group:joined'>;
+export type GroupTranscriptionData = InboundEventPayload<'transcription:group:new'>;
+export type GroupInsightData = InboundEventPayload<'insight:group:new'>;
+export type AudioChunkAckData = InboundEventPayload<'audio:chunk:ack'>;
+
+type AudioChunkPayload = OutboundEventPayload<'audio:chunk'>;
+
+export type SocketEventHandler<E extends InboundEventName> = (data: InboundEventPayload<E>) => void;
+
+interface PendingAudioChunk {
+  payload: AudioChunkPayload;
+  // Caller's name for the chunk, kept so a resend reuses its stream position
+  chunkId?: string;
+  // Last time the chunk went out on the wire; null while it waits for a connection
+  sentAt: number | null;
+  resolve: () => void;
+  reject: (error: Error) => void;
 }
 
-export interface GroupJoinedData {
-  groupId: string;
-  sessionId: string;
-  groupInfo?: { name?: string };
-  groupName?: string;
+export interface AudioStreamFormat {
+  mimeType: string;
+  sampleRate: number;
 }
 
-export interface GroupTranscriptionData {
-  id: string;
+type QueuedMessage = {
+  [E in OutboundEventName]: { event: E; payload: OutboundEventPayload<E> };
+}[OutboundEventName];
+
+interface AudioStreamState {
+  streamId: string;
   groupId: string;
-  groupName: string;
-  text: string;
-  timestamp: string;
+  nextSequence: number;
 }
 
-export interface GroupInsightData {
-  groupId: string;
-  insightType:
-    | 'argumentation_quality'
-    | 'collaboration_patterns'
-    | 'conceptual_understanding'
-    | 'topical_focus';
-  message: string;
-  severity: 'info' | 'warning' | 'success';
-  timestamp: string;
+const log = createLogger('socket');
+
+// Chunks the service holds for retransmission; ~4 minutes of 2-second chunks
+export const MAX_UNACKED_AUDIO_CHUNKS = 120;
+
+export function createStreamId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
 interface GroupWebSocketEvents {
@@ -37,6 +63,7 @@ interface GroupWebSocketEvents {
   onConnect?: () => void;
   onDisconnect?: (reason: string) => void;
   onError?: (error: unknown) => void;
+  onConnectionQuality?: (stats: ConnectionStats) => void;
   
   // Session events
   onSessionJoined?: (data: { sessionId: string; status?: string }) => void;
@@ -44,9 +71,9 @@ interface GroupWebSocketEvents {
   
   // Group kiosk events
   onGroupJoined?: (data: GroupJoinedData) => void;
-  onGroupReady?: (data: { groupId: string; sessionId: string }) => void;
-  onGroupRecording?: (data: { groupId: string; isRecording: boolean }) => void;
-  onGroupStatusChanged?: (data: { groupId: string; status: 'waiting' | 'ready' | 'recording' | 'error' }) => void;
+  onGroupReady?: (data: InboundEventPayload<'group:ready'>) => void;
+  onGroupRecording?: (data: InboundEventPayload<'group:recording'>) => void;
+  onGroupStatusChanged?: (data: InboundEventPayload<'group:status_changed'>) => void;
   
   // Real-time updates (group-focused)
   onGroupTranscriptionReceived?: (data: GroupTranscriptionData) => void;
@@ -54,29 +81,81 @@ interface GroupWebSocketEvents {
   onGroupInsightReceived?: (data: GroupInsightData) => void;
 
   // Audio streaming events
-  onAudioStreamStart?: (data: { groupId: string }) => void;
-  onAudioStreamEnd?: (data: { groupId: string }) => void;
-  onAudioError?: (data: { groupId: string; error: string }) => void;
+  onAudioStreamStart?: (data: InboundEventPayload<'audio:stream:start'>) => void;
+  onAudioStreamEnd?: (data: InboundEventPayload<'audio:stream:end'>) => void;
+  onAudioError?: (data: InboundEventPayload<'audio:error'>) => void;
+}
+
+/** The part of a socket.io client the service relies on; tests can supply an in-memory one. */
+export interface SocketLike {
+  readonly connected: boolean;
+  auth: unknown;
+  on(event: string, listener: (...args: never[]) => void): unknown;
+  emit(event: string, ...args: unknown[]): unknown;
+  disconnect(): unknown;
 }
 
-class GroupKioskWebSocketService {
-  private socket: Socket | null = null;
+export type SocketFactory = (url: string, options: Partial<ManagerOptions & SocketOptions>) => SocketLike;
+
+export interface WebSocketServiceOptions {
+  url?: string;
+  createSocket?: SocketFactory;
+}
+
+export class GroupKioskWebSocketService {
+  private socket: SocketLike | null = null;
+  private url: string;
+  private createSocket: SocketFactory;
   private events: GroupWebSocketEvents = {};
+  // Added through on(); unlike `events` they belong to their subscribers and outlive connections
+  private subscribers = new Map<InboundEventName, Set<SocketEventHandler<InboundEventName>>>();
+  private connectionListeners = new Set<() => void>();
+  // Last heartbeat summary; null until one settles and while disconnected
+  private connectionQuality: ConnectionStats | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000; // Start with 1 second
+  private audioStream: AudioStreamState | null = null;
+  // Chunks sent (or queued) but not yet acknowledged, in send order
+  private unackedChunks = new Map<string, PendingAudioChunk>();
+  private maxUnackedChunks = MAX_UNACKED_AUDIO_CHUNKS;
+  // Stream position first given to each named chunk, until the server acknowledges it
+  private chunkPositions = new Map<string, { streamId: string; sequence: number }>();
+  // Group this device captures for; speaking/mute events are scoped to it
+  private activeGroupId: string | null = null;
+  private audioFormat: AudioStreamFormat | null = null;
+  private isSpeaking = false;
+  private isMuted: boolean | null = null;
+  // Rooms to re-enter after socket.io reconnects; the server forgets them on disconnect
+  private joinedSessionId: string | null = null;
+  private joinedGroup: { groupId: string; sessionId: string } | null = null;
+  // Control messages sent while offline, replayed in order on reconnect
+  private outboundQueue: QueuedMessage[] = [];
+  private maxQueuedMessages = 50;
+  // Heartbeat: recent round trips and pings still waiting for their pong
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private heartbeatInterval = 5000;
+  private heartbeatTimeout = 4000;
+  private heartbeatCounter = 0;
+  private pendingPings = new Map<string, number>();
+  private roundTrips: number[] = [];
+  private maxRoundTripSamples = 10;
+  private missedBeats = 0;
+
+  constructor(options: WebSocketServiceOptions = {}) {
+    this.url = options.url ?? (process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:3001');
+    this.createSocket = options.createSocket ?? io;
+  }
 
   connect(token: string, events: GroupWebSocketEvents) {
     if (this.socket?.connected) {
-      console.log('WebSocket already connected');
+      log.debug('Already connected');
       return;
     }
 
     this.events = events;
-    
-    const wsUrl = process.env.NEXT_PUBLIC_WS_URL || 'http://localhost:3001';
-    
-    this.socket = io(wsUrl, {
+
+    this.socket = this.createSocket(this.url, {
       auth: { token },
       transports: ['websocket', 'polling'],
       reconnection: true,
@@ -93,23 +172,32 @@ class GroupKioskWebSocketService {
 
     // Connection events
     this.socket.on('connect', () => {
-      console.log('WebSocket connected');
+      log.info('Connected');
       this.reconnectAttempts = 0;
       this.reconnectDelay = 1000;
+      this.restoreAfterReconnect();
+      this.startHeartbeat();
       this.events.onConnect?.();
+      this.notifyConnectionChange();
     });
 
     this.socket.on('disconnect', (reason) => {
-      console.log('WebSocket disconnected:', reason);
+      log.info('Disconnected', { reason });
+      // Presence is re-announced from scratch once the socket is back
+      this.isSpeaking = false;
+      this.isMuted = null;
+      this.stopHeartbeat();
+      this.connectionQuality = null;
       this.events.onDisconnect?.(reason);
+      this.notifyConnectionChange();
     });
 
     this.socket.on('connect_error', (error: Error) => {
-      console.error('WebSocket connection error:', error.message);
+      log.warn('Connection error', { error: error.message, attempt: this.reconnectAttempts + 1 });
       this.reconnectAttempts++;
       
       if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-        console.error('Max reconnection attempts reached');
+        log.error('Max reconnection attempts reached');
         this.events.onError?.('Failed to connect after multiple attempts');
       } else {
         this.reconnectDelay = Math.min(this.reconnectDelay * 2, 10000);
@@ -117,167 +205,529 @@ class GroupKioskWebSocketService {
     });
 
     this.socket.on('error', (error: unknown) => {
-      console.error('WebSocket error:', error);
+      log.error('Socket error', error);
       this.events.onError?.(error);
     });
 
     // Session events
-    this.socket.on('session:status_changed', (data: SessionStatusChangedData) => {
-      console.log('Session status changed:', data);
+    this.listen('session:status_changed', (data) => {
+      log.info('Session status changed', data);
       this.events.onSessionStatusChanged?.(data);
     });
 
     // Group kiosk events
-    this.socket.on('group:joined', (data: GroupJoinedData) => {
-      console.log('Group joined:', data);
+    this.listen('group:joined', (data) => {
+      log.info('Group joined', data);
       this.events.onGroupJoined?.(data);
     });
 
-    this.socket.on('group:ready', (data: { groupId: string; sessionId: string }) => {
-      console.log('Group ready:', data);
+    this.listen('group:ready', (data) => {
+      log.info('Group ready', data);
       this.events.onGroupReady?.(data);
     });
 
-    this.socket.on('group:recording', (data: { groupId: string; isRecording: boolean }) => {
-      console.log('Group recording status:', data);
+    this.listen('group:recording', (data) => {
+      log.info('Group recording status', data);
       this.events.onGroupRecording?.(data);
     });
 
-    this.socket.on('group:status_changed', (data: { groupId: string; status: 'waiting' | 'ready' | 'recording' | 'error' }) => {
-      console.log('Group status changed:', data);
+    this.listen('group:status_changed', (data) => {
+      log.info('Group status changed', data);
       this.events.onGroupStatusChanged?.(data);
     });
 
     // Real-time group content
-    this.socket.on('transcription:group:new', (data: GroupTranscriptionData) => {
-      console.log('Group transcription received:', data);
+    this.listen('transcription:group:new', (data) => {
+      log.debug('Group transcription received', data);
       this.events.onGroupTranscriptionReceived?.(data);
     });
 
-    this.socket.on('insight:group:new', (data: GroupInsightData) => {
-      console.log('Group insight received:', data);
+    this.listen('insight:group:new', (data) => {
+      log.debug('Group insight received', data);
       this.events.onGroupInsightReceived?.(data);
     });
 
     // Audio streaming events
-    this.socket.on('audio:stream:start', (data: { groupId: string }) => {
-      console.log('Audio stream started:', data);
+    this.listen('audio:stream:start', (data) => {
+      log.debug('Audio stream started', data);
       this.events.onAudioStreamStart?.(data);
     });
 
-    this.socket.on('audio:stream:end', (data: { groupId: string }) => {
-      console.log('Audio stream ended:', data);
+    this.listen('audio:stream:end', (data) => {
+      log.debug('Audio stream ended', data);
       this.events.onAudioStreamEnd?.(data);
     });
 
-    this.socket.on('audio:error', (data: { groupId: string; error: string }) => {
-      console.log('Audio error:', data);
+    this.listen('audio:error', (data) => {
+      log.warn('Audio error', data);
       this.events.onAudioError?.(data);
     });
+
+    this.listen('audio:chunk:ack', (data) => {
+      const key = `${data.streamId}:${data.sequence}`;
+      const pending = this.unackedChunks.get(key);
+      if (!pending) return;
+      this.unackedChunks.delete(key);
+      if (pending.chunkId) this.chunkPositions.delete(pending.chunkId);
+      pending.resolve();
+    });
+
+    this.listen('heartbeat:pong', (data) => {
+      this.handlePong(data.id);
+    });
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.roundTrips = [];
+    this.missedBeats = 0;
+    this.sendHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), this.heartbeatInterval);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.pendingPings.clear();
+  }
+
+  private sendHeartbeat() {
+    const now = Date.now();
+    // Pings still unanswered after the timeout count as missed beats
+    let expired = 0;
+    this.pendingPings.forEach((sentAt, id) => {
+      if (now - sentAt >= this.heartbeatTimeout) {
+        this.pendingPings.delete(id);
+        expired++;
+      }
+    });
+    if (expired > 0) {
+      this.missedBeats += expired;
+      this.reportConnectionQuality();
+    }
+
+    const id = `${now.toString(36)}-${++this.heartbeatCounter}`;
+    this.pendingPings.set(id, now);
+    this.emit('heartbeat:ping', { id, sentAt: now });
+  }
+
+  private handlePong(id: string) {
+    const sentAt = this.pendingPings.get(id);
+    if (sentAt === undefined) return;
+    this.pendingPings.delete(id);
+    this.roundTrips.push(Date.now() - sentAt);
+    if (this.roundTrips.length > this.maxRoundTripSamples) {
+      this.roundTrips.shift();
+    }
+    this.missedBeats = 0;
+    this.reportConnectionQuality();
+  }
+
+  private reportConnectionQuality() {
+    this.connectionQuality = this.getConnectionStats();
+    this.events.onConnectionQuality?.(this.connectionQuality);
+    this.notifyConnectionChange();
+  }
+
+  private notifyConnectionChange() {
+    this.connectionListeners.forEach((listener) => listener());
+  }
+
+  // Every inbound payload is checked against its schema; malformed ones go to onError
+  private listen<E extends InboundEventName>(event: E, handler: (data: InboundEventPayload<E>) => void) {
+    this.socket?.on(event as string, (raw: unknown) => {
+      let data: InboundEventPayload<E>;
+      try {
+        data = parseInboundEvent(event, raw);
+      } catch (error) {
+        log.error(`Dropping malformed ${event} payload`, error);
+        this.events.onError?.(error);
+        return;
+      }
+      handler(data);
+      this.dispatch(event, data);
+    });
+  }
+
+  private dispatch<E extends InboundEventName>(event: E, data: InboundEventPayload<E>) {
+    this.subscribers.get(event)?.forEach((handler) => {
+      // One failing subscriber must not starve the others
+      try {
+        handler(data);
+      } catch (error) {
+        log.error(`"${event}" subscriber failed`, error);
+      }
+    });
+  }
+
+  private emit<E extends OutboundEventName>(event: E, payload: OutboundEventPayload<E>) {
+    this.socket?.emit(event, payload);
+  }
+
+  // Rooms first, then the open stream and its chunks; queued markers go last so a queued
+  // stream end never overtakes the audio it closes
+  private restoreAfterReconnect() {
+    if (this.joinedSessionId) {
+      this.emit('session:join', { sessionId: this.joinedSessionId });
+    }
+    if (this.joinedGroup) {
+      this.emit('group:join', this.joinedGroup);
+    }
+    if (this.audioStream) {
+      this.emit('audio:stream:start', {
+        groupId: this.audioStream.groupId,
+        streamId: this.audioStream.streamId,
+        format: this.audioFormat?.mimeType,
+        sampleRate: this.audioFormat?.sampleRate,
+      });
+    }
+    this.retransmitUnackedChunks();
+    this.flushOutboundQueue();
+  }
+
+  // Sends now, or queues until the next connect; audio and presence don't go through here
+  private send<E extends OutboundEventName>(event: E, payload: OutboundEventPayload<E>) {
+    if (this.socket?.connected) {
+      this.emit(event, payload);
+      return;
+    }
+    this.outboundQueue.push({ event, payload } as QueuedMessage);
+    if (this.outboundQueue.length > this.maxQueuedMessages) {
+      const dropped = this.outboundQueue.shift();
+      log.warn('Outbound queue full, dropping message', { event: dropped?.event });
+    }
+  }
+
+  private flushOutboundQueue() {
+    if (this.outboundQueue.length === 0) return;
+    log.info(`Replaying ${this.outboundQueue.length} queued messages`);
+    const queued = this.outboundQueue;
+    this.outboundQueue = [];
+    queued.forEach(({ event, payload }) => this.socket?.emit(event, payload));
+  }
+
+  private retransmitUnackedChunks() {
+    if (!this.socket?.connected || this.unackedChunks.size === 0) return;
+    log.info(`Retransmitting ${this.unackedChunks.size} unacknowledged audio chunks`);
+    // The server deduplicates on (streamId, sequence), so resending is safe
+    const now = Date.now();
+    this.unackedChunks.forEach((pending) => {
+      pending.sentAt = now;
+      this.emit('audio:chunk', pending.payload);
+    });
+  }
+
+  private ensureAudioStream(groupId: string): AudioStreamState {
+    if (!this.audioStream || this.audioStream.groupId !== groupId) {
+      this.audioStream = { streamId: createStreamId(), groupId, nextSequence: 0 };
+      this.activeGroupId = groupId;
+      this.emit('audio:stream:start', {
+        groupId,
+        streamId: this.audioStream.streamId,
+        format: this.audioFormat?.mimeType,
+        sampleRate: this.audioFormat?.sampleRate,
+      });
+    }
+    return this.audioStream;
   }
 
   // Group kiosk emitters
+  // Swaps the token without dropping the connection: reconnects handshake with the new
+  // one and the live socket is told about it, so audio keeps flowing through a refresh
+  reauthenticate(token: string) {
+    if (!this.socket) return;
+    // Refreshers and the session socket may both pass on the same token
+    if ((this.socket.auth as { token?: string } | undefined)?.token === token) return;
+    this.socket.auth = { token };
+    if (this.socket.connected) {
+      this.emit('auth:refresh', { token });
+    }
+  }
+
+  // Joins are remembered and (re)sent on connect, so they work before the socket is up
   joinSession(sessionId: string) {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
+    const alreadyJoined = this.joinedSessionId === sessionId;
+    this.joinedSessionId = sessionId;
+    // A reconnect has already rejoined the room by the time onConnect runs
+    if (this.socket?.connected && !alreadyJoined) {
+      this.emit('session:join', { sessionId });
     }
-    this.socket.emit('session:join', { sessionId });
     this.events.onSessionJoined?.({ sessionId });
   }
 
+  // Leaving while offline needs no message; the server dropped the room with the socket
   leaveSession(sessionId: string) {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
+    if (this.joinedSessionId === sessionId) {
+      this.joinedSessionId = null;
+    }
+    if (this.socket?.connected) {
+      this.emit('session:leave', { sessionId });
     }
-    this.socket.emit('session:leave', { sessionId });
   }
 
   joinGroupSession(groupId: string, sessionId: string) {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
+    const alreadyJoined = this.joinedGroup?.groupId === groupId;
+    this.activeGroupId = groupId;
+    this.joinedGroup = { groupId, sessionId };
+    if (this.socket?.connected && !alreadyJoined) {
+      this.emit('group:join', { groupId, sessionId });
     }
-    this.socket.emit('group:join', { groupId, sessionId });
   }
 
   leaveGroupSession(groupId: string) {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
+    if (this.activeGroupId === groupId) {
+      this.activeGroupId = null;
+    }
+    if (this.joinedGroup?.groupId === groupId) {
+      this.joinedGroup = null;
+    }
+    if (this.socket?.connected) {
+      this.emit('group:leave', { groupId });
     }
-    this.socket.emit('group:leave', { groupId });
   }
 
   updateGroupStatus(groupId: string, isReady: boolean) {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
-    }
-    this.socket.emit('group:status_update', { groupId, isReady });
+    this.send('group:status_update', { groupId, isReady });
   }
 
   // Audio streaming emitters
-  startAudioStream(groupId: string) {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
-    }
-    this.socket.emit('audio:stream:start', { groupId });
+  // Offline starts are announced by restoreAfterReconnect
+  startAudioStream(groupId: string, format?: AudioStreamFormat) {
+    // Announced with every stream start so the server can decode the chunks
+    this.audioFormat = format ?? this.audioFormat;
+    this.audioStream = null;
+    this.ensureAudioStream(groupId);
   }
 
-  sendAudioChunk(groupId: string, audioData: ArrayBuffer, mimeType: string = 'audio/webm;codecs=opus') {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
+  /**
+   * Resolves once the server acknowledges the chunk. Unacknowledged chunks are
+   * retransmitted after a reconnect; the promise rejects if the chunk is
+   * evicted from the window or the service disconnects. A chunk sent again
+   * under the same `chunkId` keeps the stream and sequence it was first given,
+   * so the server can drop it if the earlier copy did arrive.
+   */
+  sendAudioChunk(
+    groupId: string,
+    audioData: ArrayBuffer,
+    mimeType: string = 'audio/webm;codecs=opus',
+    timestamp: number = Date.now(),
+    chunkId?: string
+  ): Promise<void> {
+    let position = chunkId ? this.chunkPositions.get(chunkId) : undefined;
+    if (!position) {
+      const stream = this.ensureAudioStream(groupId);
+      position = { streamId: stream.streamId, sequence: stream.nextSequence++ };
+      if (chunkId) this.chunkPositions.set(chunkId, position);
     }
-    this.socket.emit('audio:chunk', { 
-      groupId, 
-      audioData, 
+    // `timestamp` is the capture time, which differs from now for replayed chunks
+    const payload: AudioChunkPayload = {
+      groupId,
+      ...position,
+      audioData,
       format: mimeType,
-      timestamp: Date.now()
+      timestamp,
+    };
+
+    return new Promise<void>((resolve, reject) => {
+      const pending: PendingAudioChunk = { payload, chunkId, sentAt: null, resolve, reject };
+      this.unackedChunks.set(`${payload.streamId}:${payload.sequence}`, pending);
+
+      if (this.unackedChunks.size > this.maxUnackedChunks) {
+        const [oldestKey, oldest] = this.unackedChunks.entries().next().value as [string, PendingAudioChunk];
+        this.unackedChunks.delete(oldestKey);
+        oldest.reject(new Error('Audio chunk evicted before acknowledgement'));
+      }
+
+      if (this.socket?.connected) {
+        pending.sentAt = Date.now();
+        this.emit('audio:chunk', payload);
+      }
+    });
+  }
+
+  /** How long the oldest chunk on the wire has gone without an ack, in ms (0 if none). */
+  getAckStallMs(): number {
+    let oldest: number | null = null;
+    this.unackedChunks.forEach(({ sentAt }) => {
+      if (sentAt !== null && (oldest === null || sentAt < oldest)) oldest = sentAt;
     });
+    return oldest === null ? 0 : Date.now() - oldest;
+  }
+
+  /**
+   * Gives up on every chunk still waiting for an ack, rejecting its promise.
+   * Used when audio moves to another transport: the caller still holds the
+   * chunks and resends them there, and stale send times would otherwise count
+   * as an ack stall the moment the socket is used again.
+   */
+  abandonUnackedChunks() {
+    this.unackedChunks.forEach(({ reject }) => reject(new Error('Audio moved to another transport')));
+    this.unackedChunks.clear();
   }
 
   endAudioStream(groupId: string) {
-    if (!this.socket?.connected) {
-      console.error('WebSocket not connected');
-      return;
-    }
-    this.socket.emit('audio:stream:end', { groupId });
+    this.send('audio:stream:end', { groupId, streamId: this.audioStream?.streamId });
+    this.audioStream = null;
+  }
+
+  // Pause markers keep the stream open so the server can timestamp the gap
+  pauseAudioStream(groupId: string) {
+    this.send('audio:stream:pause', {
+      groupId,
+      streamId: this.audioStream?.streamId,
+      timestamp: Date.now(),
+    });
+  }
+
+  resumeAudioStream(groupId: string) {
+    this.send('audio:stream:resume', {
+      groupId,
+      streamId: this.audioStream?.streamId,
+      timestamp: Date.now(),
+    });
   }
 
   async sendGroupAudio(groupId: string, blob: Blob, mimeType: string = 'audio/webm;codecs=opus') {
     const arrayBuffer = await blob.arrayBuffer();
-    this.sendAudioChunk(groupId, arrayBuffer, mimeType);
+    await this.sendAudioChunk(groupId, arrayBuffer, mimeType);
+  }
+
+  reportAudioError(groupId: string, error: string) {
+    this.send('audio:error', {
+      groupId,
+      streamId: this.audioStream?.streamId,
+      error,
+      timestamp: Date.now(),
+    });
+  }
+
+  // Privacy pause markers let the transcript show an intentional gap
+  startPrivacyPause(groupId: string) {
+    this.send('audio:privacy:start', {
+      groupId,
+      streamId: this.audioStream?.streamId,
+      timestamp: Date.now(),
+    });
+  }
+
+  endPrivacyPause(groupId: string) {
+    this.send('audio:privacy:end', {
+      groupId,
+      streamId: this.audioStream?.streamId,
+      timestamp: Date.now(),
+    });
   }
 
-  // Stubs to satisfy hook API
+  // Speaking/mute presence for the teacher dashboard; only changes are emitted
   updateMuteStatus(isMuted: boolean) {
-    void isMuted;
+    if (!this.socket?.connected || !this.activeGroupId) return;
+    if (this.isMuted === isMuted) return;
+    this.isMuted = isMuted;
+    this.emit('group:mute_status', {
+      groupId: this.activeGroupId,
+      isMuted,
+      timestamp: Date.now(),
+    });
   }
+
   startSpeaking() {
-    // no-op for now
+    if (!this.socket?.connected || !this.activeGroupId || this.isSpeaking) return;
+    this.isSpeaking = true;
+    this.emit('group:speaking:start', {
+      groupId: this.activeGroupId,
+      streamId: this.audioStream?.streamId,
+      timestamp: Date.now(),
+    });
   }
+
   stopSpeaking() {
-    // no-op for now
+    if (!this.socket?.connected || !this.activeGroupId || !this.isSpeaking) return;
+    this.isSpeaking = false;
+    this.emit('group:speaking:stop', {
+      groupId: this.activeGroupId,
+      streamId: this.audioStream?.streamId,
+      timestamp: Date.now(),
+    });
   }
 
   disconnect() {
+    this.stopHeartbeat();
+    this.unackedChunks.forEach(({ reject }) => reject(new Error('WebSocket disconnected')));
+    this.unackedChunks.clear();
+    this.audioStream = null;
+    this.activeGroupId = null;
+    this.isSpeaking = false;
+    this.isMuted = null;
+    this.joinedSessionId = null;
+    this.joinedGroup = null;
+    this.outboundQueue = [];
+    this.connectionQuality = null;
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
     }
+    this.notifyConnectionChange();
+  }
+
+  /**
+   * Subscribes to a single inbound event without owning the connection. Handlers
+   * see validated payloads, survive reconnects and are not cleared by disconnect();
+   * call the returned function to unsubscribe.
+   */
+  on<E extends InboundEventName>(event: E, handler: SocketEventHandler<E>): () => void {
+    let handlers = this.subscribers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.subscribers.set(event, handlers);
+    }
+    handlers.add(handler as SocketEventHandler<InboundEventName>);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends InboundEventName>(event: E, handler: SocketEventHandler<E>) {
+    const handlers = this.subscribers.get(event);
+    if (!handlers) return;
+    handlers.delete(handler as SocketEventHandler<InboundEventName>);
+    if (handlers.size === 0) {
+      this.subscribers.delete(event);
+    }
   }
 
   isConnected(): boolean {
     return this.socket?.connected || false;
   }
+
+  /**
+   * Calls `listener` whenever the connection opens or closes or a new quality
+   * report is in; read the state with isConnected() and getConnectionQuality().
+   * Like on(), listeners outlive connections.
+   */
+  onConnectionChange(listener: () => void): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
+  /** The latest heartbeat summary, or null until the first one settles and while disconnected. */
+  getConnectionQuality(): ConnectionStats | null {
+    return this.connectionQuality;
+  }
+
+  getConnectionStats(): ConnectionStats {
+    return summarizeHeartbeats(this.roundTrips, this.missedBeats);
+  }
+}
+
+/** Each service owns its own connection; pass `createSocket` to run it without a server. */
+export function createWebSocketService(options?: WebSocketServiceOptions): GroupKioskWebSocketService {
+  return new GroupKioskWebSocketService(options);
 }
 
-// Export singleton instance
-export const groupKioskWebSocket = new GroupKioskWebSocketService();
-// Aliases for compatibility with hooks/pages
+// App-wide instance, provided to components by SocketProvider. Non-React code and
+// older call sites reach it through these names.
+export const groupKioskWebSocket = createWebSocketService();
 export const wsService = groupKioskWebSocket;
 export const websocketService = groupKioskWebSocket;
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { resolveTokenExpiry } from '@/lib/token-expiry';
+
+// Students sign in with their own name; kiosks are shared devices bound to one group
+export type AuthMode = 'student' | 'kiosk';
+
+export interface AuthCredentials {
+  mode: AuthMode;
+  token: string;
+  // Epoch milliseconds, or null when neither the server nor the token says
+  expiresAt: number | null;
+  sessionId: string;
+  // Set for kiosks; students learn their group from the socket after joining
+  groupId: string | null;
+}
+
+export interface KioskGroupInfo {
+  id: string;
+  name: string;
+  sessionId: string;
+  groupNumber: number;
+  maxMembers: number;
+  currentMembers: number;
+}
+
+export interface KioskSessionInfo {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface KioskProfile {
+  groupInfo: KioskGroupInfo;
+  sessionInfo: KioskSessionInfo;
+}
+
+interface AuthState {
+  credentials: AuthCredentials | null;
+  kiosk: KioskProfile | null;
+
+  signIn: (credentials: AuthCredentials, kiosk?: KioskProfile) => void;
+  setToken: (token: string, expiresAt: number | null) => void;
+  signOut: () => void;
+}
+
+// Where credentials lived before this store; imported once so nobody is signed out by an upgrade
+const LEGACY_KIOSK_KEYS = ['group_access_token', 'groupInfo', 'sessionInfo', 'group_token_expires_at'];
+const LEGACY_STUDENT_KEY = 'student-storage';
+
+function readJson<T>(key: string): T | null {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? (JSON.parse(value) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function readLegacyAuth(): Pick<AuthState, 'credentials' | 'kiosk'> {
+  const kioskToken = localStorage.getItem('group_access_token');
+  const groupInfo = readJson<KioskGroupInfo>('groupInfo');
+  const sessionInfo = readJson<KioskSessionInfo>('sessionInfo');
+  const kioskExpiry = localStorage.getItem('group_token_expires_at') ?? undefined;
+  if (kioskToken && groupInfo && sessionInfo) {
+    return {
+      credentials: {
+        mode: 'kiosk',
+        token: kioskToken,
+        expiresAt: resolveTokenExpiry(kioskToken, kioskExpiry),
+        sessionId: sessionInfo.id,
+        groupId: groupInfo.id,
+      },
+      kiosk: { groupInfo, sessionInfo },
+    };
+  }
+
+  // The student store used to persist the token itself; it stops doing so on its next write
+  const student = readJson<{
+    state?: { token?: string | null; tokenExpiresAt?: number | null; session?: { id: string } | null };
+  }>(LEGACY_STUDENT_KEY)?.state;
+  if (student?.token && student.session) {
+    return {
+      credentials: {
+        mode: 'student',
+        token: student.token,
+        expiresAt: student.tokenExpiresAt ?? resolveTokenExpiry(student.token),
+        sessionId: student.session.id,
+        groupId: null,
+      },
+      kiosk: null,
+    };
+  }
+  return { credentials: null, kiosk: null };
+}
+
+/**
+ * Imports credentials stored before this store existed, unless it already has
+ * its own. Runs on hydration; `store` is passed in because that happens while
+ * `useAuthStore` is still being created.
+ */
+export function migrateLegacyAuth(store: Pick<AuthState, 'signIn'> = useAuthStore.getState()) {
+  if (typeof window === 'undefined' || localStorage.getItem('auth-storage')) return;
+  const { credentials, kiosk } = readLegacyAuth();
+  // Signing in persists under the new key before the old keys go
+  if (credentials) {
+    store.signIn(credentials, kiosk ?? undefined);
+  }
+  LEGACY_KIOSK_KEYS.forEach((key) => localStorage.removeItem(key));
+}
+
+export function isCredentialValid(credentials: AuthCredentials | null, now = Date.now()): boolean {
+  if (!credentials) return false;
+  return credentials.expiresAt === null || credentials.expiresAt > now;
+}
+
+export const useAuthStore = create<AuthState>()(
+  devtools(
+    persist(
+      (set) => ({
+        credentials: null,
+        kiosk: null,
+
+        signIn: (credentials, kiosk) => set({ credentials, kiosk: kiosk ?? null }),
+
+        // Refreshing keeps the mode, session and group of the current sign-in
+        setToken: (token, expiresAt) =>
+          set((state) => ({
+            credentials: state.credentials ? { ...state.credentials, token, expiresAt } : null,
+          })),
+
+        signOut: () => set({ credentials: null, kiosk: null }),
+      }),
+      {
+        name: 'auth-storage',
+        partialize: (state) => ({
+          credentials: state.credentials,
+          kiosk: state.kiosk,
+        }),
+        onRehydrateStorage: () => (state) => {
+          if (state) migrateLegacyAuth(state);
+        },
+      }
+    )
+  )
+);
+
+/** Token to send with requests, or null when signed out or already expired. */
+export function getAccessToken(now = Date.now()): string | null {
+  const { credentials } = useAuthStore.getState();
+  return credentials && isCredentialValid(credentials, now) ? credentials.token : null;
+}
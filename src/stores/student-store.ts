@@ -1,5 +1,8 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
+import type { SessionStatus } from '@/features/session-lifecycle/lib/session-lifecycle';
+import { resolveTokenExpiry } from '@/lib/token-expiry';
+import { useAuthStore } from './auth-store';
 
 interface Student {
   id: string;
@@ -10,7 +13,9 @@ interface Student {
 interface Session {
   id: string;
   title: string;
-  status: string;
+  status: SessionStatus;
+  // Code the student typed in; needed to sign in again after the token expires
+  code?: string;
 }
 
 interface Group {
@@ -19,11 +24,18 @@ interface Group {
   members: any[];
 }
 
+// What the end-of-session screen shows once credentials are gone
+export interface SessionSummary {
+  sessionId: string;
+  title: string;
+  groupName: string | null;
+  recordedSeconds: number;
+  unsyncedChunks: number;
+  endedAt: string;
+}
+
+// Credentials live in the auth store, shared with kiosk mode
 interface StudentState {
-  // Authentication
-  isAuthenticated: boolean;
-  token: string | null;
-  
   // Student info
   student: Student | null;
   session: Session | null;
@@ -36,15 +48,19 @@ interface StudentState {
   
   // WebSocket connection
   isConnected: boolean;
+
+  // Last finished session
+  sessionSummary: SessionSummary | null;
   
   // Actions
-  setAuth: (token: string, student: Student) => void;
+  setAuth: (token: string, student: Student, expiresAt?: string) => void;
   setSession: (session: Session) => void;
   setGroup: (group: Group | null) => void;
   setRecording: (isRecording: boolean) => void;
   setMuted: (isMuted: boolean) => void;
   setAudioLevel: (level: number) => void;
   setConnected: (isConnected: boolean) => void;
+  endSession: (summary: SessionSummary) => void;
   logout: () => void;
 }
 
@@ -53,8 +69,6 @@ export const useStudentStore = create<StudentState>()(
     persist(
       (set) => ({
         // Initial state
-        isAuthenticated: false,
-        token: null,
         student: null,
         session: null,
         group: null,
@@ -62,10 +76,19 @@ export const useStudentStore = create<StudentState>()(
         isMuted: false,
         audioLevel: 0,
         isConnected: false,
+        sessionSummary: null,
         
         // Actions
-        setAuth: (token, student) =>
-          set({ isAuthenticated: true, token, student }),
+        setAuth: (token, student, expiresAt) => {
+          useAuthStore.getState().signIn({
+            mode: 'student',
+            token,
+            expiresAt: resolveTokenExpiry(token, expiresAt),
+            sessionId: student.sessionId,
+            groupId: null,
+          });
+          set({ student });
+        },
           
         setSession: (session) => set({ session }),
         
@@ -79,10 +102,24 @@ export const useStudentStore = create<StudentState>()(
         
         setConnected: (isConnected) => set({ isConnected }),
         
-        logout: () =>
+        // Drops credentials like logout but keeps the summary for the end screen
+        endSession: (summary) => {
+          useAuthStore.getState().signOut();
+          set({
+            student: null,
+            session: null,
+            group: null,
+            isRecording: false,
+            isMuted: false,
+            audioLevel: 0,
+            isConnected: false,
+            sessionSummary: summary,
+          });
+        },
+        
+        logout: () => {
+          useAuthStore.getState().signOut();
           set({
-            isAuthenticated: false,
-            token: null,
             student: null,
             session: null,
             group: null,
@@ -90,15 +127,16 @@ export const useStudentStore = create<StudentState>()(
             isMuted: false,
             audioLevel: 0,
             isConnected: false,
-          }),
+            sessionSummary: null,
+          });
+        },
       }),
       {
         name: 'student-storage',
         partialize: (state) => ({
-          isAuthenticated: state.isAuthenticated,
-          token: state.token,
           student: state.student,
           session: state.session,
+          sessionSummary: state.sessionSummary,
         }),
       }
     )